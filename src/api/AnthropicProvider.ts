@@ -1,30 +1,98 @@
 // src/api/AnthropicProvider.ts
-import { Notice } from 'obsidian';
+import { Notice, requestUrl } from 'obsidian';
 import { ObsigentPluginSettings } from '../main';
-import { McpTool } from '../types/mcp';
-import { LLMProvider, StreamCallbacks, ProviderSettings, OpenAIMessage as GenericOpenAIMessage } from './LLMProvider';
+import { McpTool, McpToolSchema } from '../types/mcp';
+import { LLMProvider, getProfileSettings, httpErrorDetails, readErrorBody, StreamCallbacks, ProviderSettings, ProviderCapabilities, ValidationReport, ToolCall, TokenUsage, OpenAIMessage as GenericOpenAIMessage } from './LLMProvider';
+import { fetchWithRetry } from './RequestRetry';
+import { getSamplingParameters } from './SamplingParameters';
+import { StructuredOutputFormat } from './StructuredOutput';
+import { ToolNameMapper } from './ToolNameMapper';
+import { readSseEvents } from './StreamDecoder';
+import { detectModelCapabilities } from './ModelCapabilities';
+import { validateProviderConnection } from './ProviderValidation';
+import { resolveSecretReferences } from './SecretReferences';
+import { getMessageImages, getMessageText, getUnsupportedImageError, replaceUnsupportedImages } from './MessageContent';
+
+// Prompt caching is generally available in this version, no beta header is needed
+const ANTHROPIC_API_VERSION = '2023-06-01';
+// Used when the profile sets no max tokens, and no temperature or top P
+const DEFAULT_MAX_TOKENS = 4096;
+const DEFAULT_TEMPERATURE = 0.7;
 
 // Anthropic specific interfaces
-interface AnthropicMessageContentBlock {
+
+// Marks the end of a cached prompt prefix; cached prefixes live for about five minutes after their last use
+interface AnthropicCacheControl {
+    type: 'ephemeral';
+}
+
+interface AnthropicTextBlock {
     type: 'text';
     text: string;
-    // TODO: Add other content block types like 'image', 'tool_use', 'tool_result' if needed later
+    cache_control?: AnthropicCacheControl;
 }
 
+interface AnthropicToolUseBlock {
+    type: 'tool_use';
+    id: string;
+    name: string;
+    input: Record<string, unknown>;
+    cache_control?: AnthropicCacheControl;
+}
+
+interface AnthropicToolResultBlock {
+    type: 'tool_result';
+    tool_use_id: string;
+    content: string;
+    is_error?: boolean;
+    cache_control?: AnthropicCacheControl;
+}
+
+interface AnthropicImageBlock {
+    type: 'image';
+    source: { type: 'base64'; media_type: string; data: string };
+    cache_control?: AnthropicCacheControl;
+}
+
+type AnthropicMessageContentBlock = AnthropicTextBlock | AnthropicImageBlock | AnthropicToolUseBlock | AnthropicToolResultBlock;
+
 interface AnthropicMessage {
     role: 'user' | 'assistant';
     content: AnthropicMessageContentBlock[]; // Anthropic expects content to be an array of blocks
     // For text-only, it will be [{ type: 'text', text: '...' }]
 }
 
+interface AnthropicTool {
+    name: string;
+    description?: string;
+    input_schema: McpToolSchema;
+    cache_control?: AnthropicCacheControl;
+}
+
+type AnthropicToolChoice =
+    | { type: 'auto' | 'any' | 'none' }
+    | { type: 'tool'; name: string };
+
 interface AnthropicRequest {
     model: string;
     messages: AnthropicMessage[];
-    system?: string; // System prompt is a top-level parameter
+    system?: string | AnthropicTextBlock[]; // System prompt is a top-level parameter; blocks can carry cache_control
     max_tokens: number;
     temperature?: number;
+    top_p?: number;
+    top_k?: number;
+    stop_sequences?: string[];
     stream?: boolean;
-    // TODO: Add other parameters like top_p, top_k, tool_choice, tools later
+    tools?: AnthropicTool[];
+    tool_choice?: AnthropicToolChoice;
+    thinking?: { type: 'enabled'; budget_tokens: number };
+}
+
+interface AnthropicUsage {
+    input_tokens: number; // Excludes cache reads and writes
+    output_tokens: number;
+    cache_creation_input_tokens?: number | null;
+    cache_read_input_tokens?: number | null;
 }
 
 // Simplified stream event types based on reference
@@ -32,20 +100,22 @@ interface AnthropicRequest {
 interface AnthropicStreamEvent {
     type: string; // e.g., 'message_start', 'content_block_delta', 'message_stop'
     delta?: {
-        type?: 'text_delta' | 'thinking_delta'; // and others
+        type?: 'text_delta' | 'thinking_delta' | 'input_json_delta'; // and others
         text?: string;
         thinking?: string;
+        partial_json?: string; // For input_json_delta
+        stop_reason?: string; // For message_delta
     };
     message?: { // For message_start
-        usage: { input_tokens: number; output_tokens: number };
-    };
-    usage?: { // For message_delta
-        output_tokens: number;
+        usage: AnthropicUsage;
     };
+    usage?: Partial<AnthropicUsage>; // For message_delta; counts are cumulative
     content_block?: { // For content_block_start
-        type: 'text' | 'thinking' | 'redacted_thinking'; // and others
+        type: 'text' | 'thinking' | 'redacted_thinking' | 'tool_use'; // and others
         text?: string;
         thinking?: string;
+        id?: string; // For tool_use
+        name?: string; // For tool_use
     };
     index?: number; // For content_block_start
 }
@@ -60,65 +130,256 @@ interface AnthropicMessageStopEvent {
 
 export class AnthropicProvider implements LLMProvider {
     readonly providerName = "anthropic";
+    readonly profileId: string;
+
+    constructor(profileId: string) {
+        this.profileId = profileId;
+    }
+
+    public getCapabilities(settings: ObsigentPluginSettings): ProviderCapabilities {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        return detectModelCapabilities(this.providerName, providerSettings.defaultModel, providerSettings.capabilityOverrides);
+    }
+
+    public async validateSettings(settings: ObsigentPluginSettings): Promise<ValidationReport> {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        return validateProviderConnection(this, settings, { endpoint: providerSettings.apiEndpoint || 'https://api.anthropic.com', apiKeyRequired: true });
+    }
+
+    public async listModels(settings: ObsigentPluginSettings): Promise<string[]> {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        if (!providerSettings.apiKey) {
+            throw new Error('Anthropic API key is not set.');
+        }
+        const apiKey = resolveSecretReferences(providerSettings.apiKey);
+        const apiBaseUrl = (providerSettings.apiEndpoint || 'https://api.anthropic.com').replace(/\/+$/, '');
 
-    private convertToAnthropicMessages(messages: GenericOpenAIMessage[]): { anthropicMessages: AnthropicMessage[], systemPrompt?: string } {
+        // The list is paginated; follow last_id until there are no more pages
+        const modelIds: string[] = [];
+        let afterId: string | undefined = undefined;
+        do {
+            const url = `${apiBaseUrl}/v1/models?limit=1000${afterId ? `&after_id=${encodeURIComponent(afterId)}` : ''}`;
+            const response = await requestUrl({
+                url,
+                headers: {
+                    'x-api-key': apiKey,
+                    'anthropic-version': ANTHROPIC_API_VERSION,
+                },
+                throw: false,
+            });
+            if (response.status >= 400) {
+                let errorDetails = response.text || 'No additional details';
+                try {
+                    errorDetails = response.json?.error?.message || errorDetails;
+                } catch (e) {
+                    // Not a JSON error body, keep the raw text
+                }
+                throw new Error(`HTTP Error ${response.status} from ${url}: ${errorDetails}`);
+            }
+            const page: { data?: { id?: string }[]; has_more?: boolean; last_id?: string } = response.json || {};
+            (page.data || []).forEach(model => {
+                if (model.id) modelIds.push(model.id);
+            });
+            afterId = page.has_more ? page.last_id : undefined;
+        } while (afterId);
+
+        return modelIds; // Already ordered newest first by the API
+    }
+
+    // Returns the thinking budget for this request, or undefined if extended thinking should stay off
+    private resolveThinkingBudget(settings: ObsigentPluginSettings, providerSettings: ProviderSettings, messages: GenericOpenAIMessage[], toolChoice?: AnthropicToolChoice): number | undefined {
+        const budget = providerSettings.thinkingBudget;
+        if (!budget || budget <= 0 || !this.getCapabilities(settings).reasoning) {
+            return undefined;
+        }
+        // Thinking is incompatible with forced tool use
+        if (toolChoice && (toolChoice.type === 'any' || toolChoice.type === 'tool')) {
+            return undefined;
+        }
+        // A request continuing after tool results would have to send back the signed thinking blocks of the
+        // tool-calling turn. They are not kept in chatHistory, so thinking is only enabled at the start of a turn.
+        const lastMessage = messages[messages.length - 1];
+        if (lastMessage && lastMessage.role === 'tool') {
+            return undefined;
+        }
+        return Math.max(1024, Math.floor(budget)); // The API's minimum budget
+    }
+
+    // message_start carries the full usage, message_delta repeats the cumulative counts that changed
+    private applyUsage(usage: TokenUsage, anthropicUsage: Partial<AnthropicUsage>): void {
+        if (typeof anthropicUsage.input_tokens === 'number') usage.inputTokens = anthropicUsage.input_tokens;
+        if (typeof anthropicUsage.output_tokens === 'number') usage.outputTokens = anthropicUsage.output_tokens;
+        if (typeof anthropicUsage.cache_read_input_tokens === 'number') usage.cacheReadTokens = anthropicUsage.cache_read_input_tokens;
+        if (typeof anthropicUsage.cache_creation_input_tokens === 'number') usage.cacheWriteTokens = anthropicUsage.cache_creation_input_tokens;
+    }
+
+    private convertToAnthropicMessages(messages: GenericOpenAIMessage[], toolNameMapper: ToolNameMapper): { anthropicMessages: AnthropicMessage[], systemPrompt?: string } {
         const anthropicMessages: AnthropicMessage[] = [];
         let systemPrompt: string | undefined = undefined;
 
+        // Anthropic requires alternating roles, so consecutive blocks of the same role are merged into one message.
+        // This matters for tool results: all results answering one assistant turn must be in a single user message.
+        const pushBlocks = (role: 'user' | 'assistant', blocks: AnthropicMessageContentBlock[]) => {
+            if (blocks.length === 0) return;
+            const lastMessage = anthropicMessages[anthropicMessages.length - 1];
+            if (lastMessage && lastMessage.role === role) {
+                lastMessage.content.push(...blocks);
+            } else {
+                anthropicMessages.push({ role, content: blocks });
+            }
+        };
+
         for (const msg of messages) {
             if (msg.role === 'system') {
                 if (msg.content) {
                     // Anthropic takes the last system prompt if multiple are present.
                     // Or, concatenate them, but the API expects a single string.
-                    systemPrompt = msg.content;
+                    systemPrompt = getMessageText(msg.content);
                 }
                 continue;
             }
 
-            if (msg.role === 'user' || msg.role === 'assistant') {
-                if (msg.content) { // Ensure content is not null
-                    anthropicMessages.push({
-                        role: msg.role,
-                        content: [{ type: 'text', text: msg.content }] // Simple text content for now
+            if (msg.role === 'tool') {
+                if (!msg.tool_call_id) {
+                    console.warn("AnthropicProvider: Skipping tool message without tool_call_id.");
+                    continue;
+                }
+                const resultText = getMessageText(msg.content);
+                pushBlocks('user', [{
+                    type: 'tool_result',
+                    tool_use_id: msg.tool_call_id,
+                    content: resultText,
+                    is_error: msg.isError || undefined,
+                }]);
+                continue;
+            }
+
+            const blocks: AnthropicMessageContentBlock[] = [];
+            // Images go before the text, which is where Anthropic recommends placing them
+            for (const image of getMessageImages(msg.content)) {
+                blocks.push({ type: 'image', source: { type: 'base64', media_type: image.mediaType, data: image.data } });
+            }
+            const text = getMessageText(msg.content);
+            if (text) { // Ensure content is not empty
+                blocks.push({ type: 'text', text });
+            }
+            if (msg.role === 'assistant' && msg.tool_calls) {
+                for (const toolCall of msg.tool_calls) {
+                    blocks.push({
+                        type: 'tool_use',
+                        id: toolCall.id,
+                        name: toolNameMapper.toApiName(toolCall.function.name),
+                        input: this.parseToolInput(toolCall.function.arguments),
                     });
-                } else if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
-                    // TODO: Handle assistant messages with tool_calls if/when implementing tools for Anthropic
-                    // This would involve creating 'tool_use' content blocks.
-                    // For now, skipping assistant messages that only contain tool_calls and no text content.
-                    console.warn("AnthropicProvider: Skipping assistant message with only tool_calls and no text content.");
                 }
             }
-            // TODO: Handle 'tool' role messages if/when implementing tools for Anthropic
-            // This would involve creating 'tool_result' content blocks.
+            pushBlocks(msg.role, blocks);
         }
         return { anthropicMessages, systemPrompt };
     }
 
+    // The prefix up to each breakpoint is cached, so on the next turn the tool definitions, the system prompt and
+    // the conversation so far are read from the cache instead of being billed as new input.
+    // The API allows four breakpoints: after the tools, after the system prompt and at the end of the last two user turns.
+    // The last turn writes the cache for the next request, the one before reads what the previous request wrote.
+    private addCacheBreakpoints(requestBody: AnthropicRequest): void {
+        const cacheControl: AnthropicCacheControl = { type: 'ephemeral' };
+
+        if (requestBody.tools && requestBody.tools.length > 0) {
+            requestBody.tools[requestBody.tools.length - 1].cache_control = cacheControl;
+        }
+        if (typeof requestBody.system === 'string' && requestBody.system) {
+            requestBody.system = [{ type: 'text', text: requestBody.system, cache_control: cacheControl }];
+        }
+        requestBody.messages
+            .filter(message => message.role === 'user')
+            .slice(-2)
+            .forEach(message => {
+                const lastBlock = message.content[message.content.length - 1];
+                if (lastBlock) lastBlock.cache_control = cacheControl;
+            });
+    }
+
+    private parseToolInput(argumentsJson: string): Record<string, unknown> {
+        if (!argumentsJson) return {};
+        try {
+            const parsed = JSON.parse(argumentsJson);
+            return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+        } catch (e) {
+            console.warn("AnthropicProvider: Could not parse tool call arguments, sending empty input.", argumentsJson);
+            return {};
+        }
+    }
+
+    private convertToAnthropicTools(tools: McpTool[], toolNameMapper: ToolNameMapper): AnthropicTool[] {
+        return tools.map(tool => ({
+            name: toolNameMapper.toApiName(tool.name),
+            description: tool.description,
+            input_schema: tool.inputSchema || { type: 'object', properties: {} },
+        }));
+    }
+
+    private resolveToolChoice(providerSettings: ProviderSettings, tools: McpTool[], toolNameMapper: ToolNameMapper): AnthropicToolChoice {
+        switch (providerSettings.toolChoice) {
+            case 'none':
+                return { type: 'none' };
+            case 'required':
+                return { type: 'any' };
+            case 'function': {
+                const toolName = providerSettings.toolChoiceFunction?.trim();
+                if (toolName && tools.some(tool => tool.name === toolName)) {
+                    return { type: 'tool', name: toolNameMapper.toApiName(toolName) };
+                }
+                console.warn(`AnthropicProvider: Tool "${toolName || ''}" selected as tool choice is not available. Falling back to "auto".`);
+                return { type: 'auto' };
+            }
+            default:
+                return { type: 'auto' };
+        }
+    }
+
     public async generateResponse(
         messages: GenericOpenAIMessage[],
         settings: ObsigentPluginSettings,
         callbacks: StreamCallbacks,
-        availableTools?: McpTool[], // Tools are not yet implemented for Anthropic in this provider
-        abortController?: AbortController
+        availableTools?: McpTool[],
+        abortController?: AbortController,
+        responseFormat?: StructuredOutputFormat
     ): Promise<void> {
-        const providerSettings = settings.providerSettings?.[this.providerName] as ProviderSettings || {};
+        const providerSettings = getProfileSettings(settings, this.profileId);
         const apiKey = providerSettings.apiKey;
         const apiBaseUrl = providerSettings.apiEndpoint || 'https://api.anthropic.com'; // Default Anthropic API base
         const defaultModel = providerSettings.defaultModel || 'claude-3-haiku-20240307'; // A common default
 
         if (!apiKey) {
-            callbacks.onError('Anthropic API key is not set.');
+            callbacks.onError('Anthropic API key is not set.', { kind: 'configuration' });
+            return;
+        }
+        let resolvedApiKey: string;
+        try {
+            resolvedApiKey = resolveSecretReferences(apiKey);
+        } catch (error) {
+            callbacks.onError(`Anthropic API key: ${error instanceof Error ? error.message : String(error)}`, { kind: 'configuration' });
             return;
         }
         if (!defaultModel) {
-            callbacks.onError('Anthropic Default model is not set.');
+            callbacks.onError('Anthropic Default model is not set.', { kind: 'configuration' });
+            return;
+        }
+        const imageError = getUnsupportedImageError(messages, this.getCapabilities(settings), defaultModel);
+        if (imageError) {
+            callbacks.onError(imageError, { kind: 'configuration' });
             return;
         }
+        messages = replaceUnsupportedImages(messages, this.getCapabilities(settings));
 
-        const { anthropicMessages, systemPrompt } = this.convertToAnthropicMessages(messages);
+        // Tool definitions are mapped first so their API-safe names take precedence over names in the history
+        const toolNameMapper = new ToolNameMapper();
+        const tools = availableTools && availableTools.length > 0 ? this.convertToAnthropicTools(availableTools, toolNameMapper) : undefined;
+        const { anthropicMessages, systemPrompt } = this.convertToAnthropicMessages(messages, toolNameMapper);
 
         if (anthropicMessages.length === 0 && !systemPrompt) {
-            callbacks.onError("No messages to send to Anthropic.");
+            callbacks.onError("No messages to send to Anthropic.", { kind: 'configuration' });
             return;
         }
         
@@ -132,127 +393,190 @@ export class AnthropicProvider implements LLMProvider {
         }
 
 
+        // Anthropic requires max_tokens, so the defaults apply when the profile does not set it
+        const sampling = getSamplingParameters(this.providerName, providerSettings.sampling);
+        const maxTokens = sampling.maxTokens ?? DEFAULT_MAX_TOKENS;
+        // Current models reject temperature and top_p in the same request, so top_p is only sent on its own
+        if (sampling.temperature !== undefined && sampling.topP !== undefined) {
+            console.warn("AnthropicProvider: Both temperature and top P are set; only temperature is sent.");
+        }
         const requestBody: AnthropicRequest = {
             model: defaultModel,
             messages: anthropicMessages,
-            max_tokens: 4096, // A common default, should be configurable
+            max_tokens: maxTokens,
             stream: true,
-            temperature: 0.7, // A common default, should be configurable
+            temperature: sampling.temperature ?? (sampling.topP === undefined ? DEFAULT_TEMPERATURE : undefined),
+            top_p: sampling.temperature === undefined ? sampling.topP : undefined,
+            top_k: sampling.topK,
+            stop_sequences: sampling.stopSequences,
         };
 
         if (systemPrompt) {
             requestBody.system = systemPrompt;
         }
+
+        if (tools && availableTools) {
+            requestBody.tools = tools;
+            requestBody.tool_choice = this.resolveToolChoice(providerSettings, availableTools, toolNameMapper);
+        }
+
+        // Anthropic has no JSON mode. A forced tool whose input schema is the output schema makes the model
+        // answer with a matching object, which is streamed as text instead of being reported as a tool call.
+        const structuredOutputToolName = responseFormat && this.getCapabilities(settings).tools ? responseFormat.name : undefined;
+        if (responseFormat && structuredOutputToolName) {
+            requestBody.tools = [{
+                name: structuredOutputToolName,
+                description: responseFormat.description || 'Respond with the requested JSON object.',
+                input_schema: responseFormat.schema as McpToolSchema,
+            }];
+            requestBody.tool_choice = { type: 'tool', name: structuredOutputToolName };
+        }
+
+        if (providerSettings.promptCaching !== false) {
+            this.addCacheBreakpoints(requestBody);
+        }
+
+        const thinkingBudget = this.resolveThinkingBudget(settings, providerSettings, messages, requestBody.tool_choice);
+        if (thinkingBudget) {
+            requestBody.thinking = { type: 'enabled', budget_tokens: thinkingBudget };
+            // The budget counts towards max_tokens, and thinking does not allow custom temperature or top_k.
+            // top_p is only accepted from 0.95 up.
+            requestBody.max_tokens = thinkingBudget + maxTokens;
+            delete requestBody.temperature;
+            delete requestBody.top_k;
+            if (requestBody.top_p !== undefined && requestBody.top_p < 0.95) delete requestBody.top_p;
+        }
         
         const fullApiUrl = `${apiBaseUrl.replace(/\/+$/, '')}/v1/messages`; // Standard Anthropic messages endpoint
 
         try {
-            const response = await fetch(fullApiUrl, {
+            const response = await fetchWithRetry(fullApiUrl, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'x-api-key': apiKey,
-                    'anthropic-version': '2023-06-01', // Common version
-                    // TODO: Add 'anthropic-beta': 'prompt-caching-2024-07-31' or similar if implementing caching
+                    'x-api-key': resolvedApiKey,
+                    'anthropic-version': ANTHROPIC_API_VERSION,
                 },
                 body: JSON.stringify(requestBody),
                 signal: abortController?.signal, // Add abort signal support
-            });
+            }, { maxAttempts: settings.maxRequestAttempts, onRetry: callbacks.onRetry });
+            callbacks.onResponse?.({ url: fullApiUrl, status: response.status });
 
             if (!response.ok) {
-                let errorDetails = `HTTP Error ${response.status}`;
-                try {
-                    const errorJson = await response.json(); // Anthropic error structure might differ
-                    if (errorJson && errorJson.error && errorJson.error.message) {
-                      errorDetails = `${errorJson.error.type || 'API Error'}: ${errorJson.error.message}`;
-                    } else if (errorJson && errorJson.detail) { // Another possible error format
-                        errorDetails = `API Error: ${errorJson.detail}`;
-                    }
-                     else {
-                        errorDetails = `HTTP Error ${response.status}: ${await response.text() || 'No additional details'}`;
-                    }
-                } catch (e) {
-                    errorDetails = `HTTP Error ${response.status}: ${await response.text() || 'Failed to parse error response.'}`;
+                const errorBody = await readErrorBody(response);
+                const errorJson = errorBody.json as { error?: { type?: string; message?: string }; detail?: string } | undefined;
+                let errorDetails: string;
+                if (errorJson?.error?.message) {
+                    errorDetails = `${errorJson.error.type || 'API Error'}: ${errorJson.error.message}`;
+                } else if (errorJson?.detail) { // Another possible error format
+                    errorDetails = `API Error: ${errorJson.detail}`;
+                } else {
+                    errorDetails = `HTTP Error ${response.status}: ${errorBody.text}`;
                 }
-                callbacks.onError(errorDetails);
+                callbacks.onError(errorDetails, httpErrorDetails(response));
                 return;
             }
 
             if (!response.body) {
-                callbacks.onError('Response body is null.');
+                callbacks.onError('Response body is null.', { kind: 'stream' });
                 return;
             }
 
-            const reader = response.body.getReader();
-            const decoder = new TextDecoder();
-            let buffer = '';
-
-            // Stream parsing logic adapted for Anthropic's SSE format
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                buffer += decoder.decode(value, { stream: true });
-                
-                // Anthropic SSEs are newline-separated events
-                let eventEndIndex;
-                while ((eventEndIndex = buffer.indexOf('\n\n')) !== -1) {
-                    const eventLines = buffer.substring(0, eventEndIndex).split('\n');
-                    buffer = buffer.substring(eventEndIndex + 2);
-
-                    let eventType = '';
-                    let eventData = '';
-
-                    for (const line of eventLines) {
-                        if (line.startsWith('event: ')) {
-                            eventType = line.substring(7).trim();
-                        } else if (line.startsWith('data: ')) {
-                            eventData = line.substring(6).trim();
+            let stopReason: string | undefined = undefined;
+            const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+            // tool_use blocks keyed by content block index; their input arrives as partial JSON deltas
+            const toolUseBlocks: Map<number, ToolCall> = new Map();
+            const structuredOutputBlocks: Set<number> = new Set();
+            let messageStopped = false;
+
+            // Anthropic names each event in its "event:" field; the payload repeats it as "type"
+            for await (const event of readSseEvents(response.body)) {
+                let parsedData: AnthropicStreamEvent;
+                try {
+                    parsedData = JSON.parse(event.data);
+                } catch (e: any) {
+                    console.error('Error parsing Anthropic stream data JSON:', e, 'Data:', event.data);
+                    continue;
+                }
+                const eventType = event.event !== 'message' ? event.event : parsedData.type;
+
+                switch (eventType) {
+                    case 'message_start':
+                        if (parsedData.message?.usage) {
+                            this.applyUsage(usage, parsedData.message.usage);
+                        }
+                        break;
+                    case 'content_block_start':
+                        if (parsedData.content_block?.type === 'redacted_thinking' && callbacks.onReasoning) {
+                            // Flagged by Anthropic's safety systems and sent encrypted; there is nothing to show
+                            callbacks.onReasoning('\n\n_Part of the reasoning was redacted by Anthropic._\n\n');
+                        } else if (parsedData.content_block?.type === 'tool_use' && parsedData.index !== undefined && structuredOutputToolName && parsedData.content_block.name === structuredOutputToolName) {
+                            structuredOutputBlocks.add(parsedData.index);
+                        } else if (parsedData.content_block?.type === 'tool_use' && parsedData.index !== undefined) {
+                            toolUseBlocks.set(parsedData.index, {
+                                id: parsedData.content_block.id || '',
+                                type: 'function',
+                                function: { name: toolNameMapper.fromApiName(parsedData.content_block.name || ''), arguments: '' },
+                            });
                         }
-                    }
-
-                    if (eventData) {
-                        try {
-                            const parsedData: AnthropicStreamEvent = JSON.parse(eventData);
-                            
-                            switch (eventType) {
-                                case 'message_start':
-                                    // console.log("Anthropic message_start:", parsedData);
-                                    // Can get input/output tokens from parsedData.message.usage
-                                    break;
-                                case 'content_block_delta':
-                                    if (parsedData.delta && parsedData.delta.text) {
-                                        callbacks.onUpdate(parsedData.delta.text, false);
-                                    }
-                                    break;
-                                case 'message_delta':
-                                    // console.log("Anthropic message_delta:", parsedData);
-                                    // Can get incremental output_tokens from parsedData.usage
-                                    break;
-                                case 'message_stop':
-                                    callbacks.onUpdate("", true); 
-                                    callbacks.onFinish( (parsedData as AnthropicMessageStopEvent).stop_reason || "stop"); // Added type assertion and fixed property access
-                                    return; // Stream finished
-                                case 'ping':
-                                    // console.log("Anthropic ping");
-                                    break;
-                                case 'error':
-                                    console.error("Anthropic stream error event:", parsedData);
-                                    callbacks.onError(`Anthropic API Error: ${(parsedData as any).error?.message || 'Unknown stream error'}`);
-                                    return;
-                                default:
-                                    // Potentially other events like content_block_start, content_block_stop
-                                    // console.log(`Anthropic unhandled event type: ${eventType}`, parsedData);
-                                    break;
+                        break;
+                    case 'content_block_delta':
+                        if (parsedData.delta?.type === 'input_json_delta' && parsedData.index !== undefined && structuredOutputBlocks.has(parsedData.index)) {
+                            if (parsedData.delta.partial_json) callbacks.onUpdate(parsedData.delta.partial_json, false);
+                        } else if (parsedData.delta?.type === 'input_json_delta' && parsedData.index !== undefined) {
+                            const toolUse = toolUseBlocks.get(parsedData.index);
+                            if (toolUse) {
+                                toolUse.function.arguments += parsedData.delta.partial_json || '';
                             }
-                        } catch (e: any) {
-                            console.error('Error parsing Anthropic stream data JSON:', e, 'Data:', eventData);
+                        } else if (parsedData.delta?.type === 'thinking_delta') {
+                            if (parsedData.delta.thinking && callbacks.onReasoning) {
+                                callbacks.onReasoning(parsedData.delta.thinking);
+                            }
+                        } else if (parsedData.delta && parsedData.delta.text) {
+                            callbacks.onUpdate(parsedData.delta.text, false);
+                        }
+                        break;
+                    case 'message_delta':
+                        if (parsedData.usage) {
+                            this.applyUsage(usage, parsedData.usage);
+                        }
+                        if (parsedData.delta?.stop_reason) {
+                            stopReason = parsedData.delta.stop_reason;
                         }
-                    }
+                        break;
+                    case 'message_stop':
+                        stopReason = stopReason || (parsedData as AnthropicMessageStopEvent).stop_reason;
+                        messageStopped = true;
+                        break;
+                    case 'ping':
+                        // console.log("Anthropic ping");
+                        break;
+                    case 'error':
+                        console.error("Anthropic stream error event:", parsedData);
+                        callbacks.onError(`Anthropic API Error: ${(parsedData as any).error?.message || 'Unknown stream error'}`, { kind: 'stream' });
+                        return;
+                    default:
+                        // Potentially other events like content_block_stop
+                        // console.log(`Anthropic unhandled event type: ${eventType}`, parsedData);
+                        break;
                 }
+                // Leaving the loop releases the stream before the tool calls start the next request
+                if (messageStopped) break;
+            }
+
+            if (callbacks.onUsage) {
+                callbacks.onUsage(usage);
+            }
+            // Without message_stop the stream was cut off, so tool inputs may be incomplete; the text so far is kept
+            const toolCalls = messageStopped ? Array.from(toolUseBlocks.values())
+                .filter(toolCall => toolCall.id && toolCall.function.name)
+                .map(toolCall => ({ ...toolCall, function: { ...toolCall.function, arguments: toolCall.function.arguments || '{}' } })) : [];
+            if (callbacks.onToolCall && toolCalls.length > 0) {
+                await callbacks.onToolCall(toolCalls);
+            } else {
+                callbacks.onUpdate("", true);
             }
-             // If loop finishes without message_stop, it might be an incomplete stream or different termination
-            callbacks.onFinish("done_outside_loop");
+            callbacks.onFinish(messageStopped ? stopReason || "stop" : "done_outside_loop");
 
 
         } catch (error: any) {
@@ -261,7 +585,7 @@ export class AnthropicProvider implements LLMProvider {
                 callbacks.onFinish('aborted');
                 return;
             }
-            callbacks.onError(`Failed to connect to Anthropic API: ${error.message || 'Unknown error'}`);
+            callbacks.onError(`Failed to connect to Anthropic API: ${error.message || 'Unknown error'}`, { kind: 'network' });
         }
     }
 }
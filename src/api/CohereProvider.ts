@@ -0,0 +1,387 @@
+// src/api/CohereProvider.ts
+import { ObsigentPluginSettings } from '../main';
+import { McpTool, McpToolSchema } from '../types/mcp';
+import { JsonSchema } from '../types/jsonSchema';
+import { LLMProvider, getProfileSettings, httpErrorDetails, readErrorBody, StreamCallbacks, ProviderCapabilities, ValidationReport, ToolCall, TokenUsage, OpenAIMessage as GenericOpenAIMessage } from './LLMProvider';
+import { fetchWithRetry } from './RequestRetry';
+import { getSamplingParameters } from './SamplingParameters';
+import { StructuredOutputFormat } from './StructuredOutput';
+import { ToolNameMapper } from './ToolNameMapper';
+import { readSseEvents } from './StreamDecoder';
+import { detectModelCapabilities } from './ModelCapabilities';
+import { validateProviderConnection } from './ProviderValidation';
+import { resolveSecretReferences } from './SecretReferences';
+import { getMessageImageUrls, getMessageText, getUnsupportedImageError, replaceUnsupportedImages } from './MessageContent';
+
+// Cohere specific interfaces (Chat API v2)
+interface CohereToolCall {
+    id: string;
+    type: 'function';
+    function: {
+        name: string;
+        arguments: string; // JSON string of arguments
+    };
+}
+
+// Vision models take user content as text and image_url parts like OpenAI
+type CohereContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+type CohereMessage =
+    | { role: 'system'; content: string }
+    | { role: 'user'; content: string | CohereContentPart[] }
+    | { role: 'assistant'; content?: string; tool_plan?: string; tool_calls?: CohereToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: { type: 'document'; document: { data: string } }[] };
+
+interface CohereTool {
+    type: 'function';
+    function: {
+        name: string;
+        description?: string;
+        parameters: McpToolSchema;
+    };
+}
+
+interface CohereRequest {
+    model: string;
+    messages: CohereMessage[];
+    stream: boolean;
+    tools?: CohereTool[];
+    tool_choice?: 'REQUIRED' | 'NONE'; // Omitted for the default "model decides" behaviour
+    temperature?: number;
+    p?: number;
+    k?: number;
+    max_tokens?: number;
+    stop_sequences?: string[];
+    seed?: number;
+    response_format?: { type: 'json_object'; json_schema?: JsonSchema };
+}
+
+// Streamed events, distinguished by their 'type' field
+interface CohereStreamEvent {
+    type: 'message-start' | 'content-start' | 'content-delta' | 'content-end'
+        | 'tool-plan-delta' | 'tool-call-start' | 'tool-call-delta' | 'tool-call-end'
+        | 'citation-start' | 'citation-end' | 'message-end' | 'debug';
+    index?: number;
+    delta?: {
+        message?: {
+            content?: { type?: 'text' | 'thinking'; text?: string; thinking?: string };
+            tool_plan?: string;
+            tool_calls?: {
+                id?: string;
+                type?: 'function';
+                function?: { name?: string; arguments?: string };
+            };
+        };
+        finish_reason?: string; // For message-end
+        error?: string; // For message-end with finish_reason ERROR
+        usage?: {
+            billed_units?: { input_tokens?: number; output_tokens?: number };
+            tokens?: { input_tokens?: number; output_tokens?: number };
+        };
+    };
+}
+
+export class CohereProvider implements LLMProvider {
+    readonly providerName = "cohere";
+    readonly profileId: string;
+
+    constructor(profileId: string) {
+        this.profileId = profileId;
+    }
+
+    public getCapabilities(settings: ObsigentPluginSettings): ProviderCapabilities {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        return detectModelCapabilities(this.providerName, providerSettings.defaultModel, providerSettings.capabilityOverrides);
+    }
+
+    public async validateSettings(settings: ObsigentPluginSettings): Promise<ValidationReport> {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        return validateProviderConnection(this, settings, { endpoint: providerSettings.apiEndpoint || 'https://api.cohere.com', apiKeyRequired: true });
+    }
+
+    private convertToCohereMessages(messages: GenericOpenAIMessage[], toolNameMapper: ToolNameMapper): CohereMessage[] {
+        const cohereMessages: CohereMessage[] = [];
+
+        for (const msg of messages) {
+            switch (msg.role) {
+                case 'system':
+                    if (msg.content) {
+                        cohereMessages.push({ role: 'system', content: getMessageText(msg.content) });
+                    }
+                    break;
+                case 'user': {
+                    const imageUrls = getMessageImageUrls(msg.content);
+                    if (imageUrls.length > 0) {
+                        const text = getMessageText(msg.content);
+                        cohereMessages.push({
+                            role: 'user',
+                            content: [
+                                ...(text ? [{ type: 'text' as const, text }] : []),
+                                ...imageUrls.map(url => ({ type: 'image_url' as const, image_url: { url } })),
+                            ],
+                        });
+                    } else if (msg.content) {
+                        cohereMessages.push({ role: 'user', content: getMessageText(msg.content) });
+                    }
+                    break;
+                }
+                case 'assistant':
+                    if (msg.tool_calls && msg.tool_calls.length > 0) {
+                        // Text streamed before the tool calls was Cohere's tool plan, so it goes back as one
+                        cohereMessages.push({
+                            role: 'assistant',
+                            tool_plan: getMessageText(msg.content) || undefined,
+                            tool_calls: msg.tool_calls.map(toolCall => ({
+                                id: toolCall.id,
+                                type: 'function',
+                                function: {
+                                    name: toolNameMapper.toApiName(toolCall.function.name),
+                                    arguments: toolCall.function.arguments || '{}',
+                                },
+                            })),
+                        });
+                    } else if (msg.content) {
+                        cohereMessages.push({ role: 'assistant', content: getMessageText(msg.content) });
+                    }
+                    break;
+                case 'tool':
+                    if (!msg.tool_call_id) {
+                        console.warn("CohereProvider: Skipping tool message without tool_call_id.");
+                        break;
+                    }
+                    cohereMessages.push({
+                        role: 'tool',
+                        tool_call_id: msg.tool_call_id,
+                        content: [{ type: 'document', document: { data: getMessageText(msg.content) } }],
+                    });
+                    break;
+            }
+        }
+        return cohereMessages;
+    }
+
+    private convertToCohereTools(tools: McpTool[], toolNameMapper: ToolNameMapper): CohereTool[] {
+        return tools.map(tool => ({
+            type: 'function',
+            function: {
+                name: toolNameMapper.toApiName(tool.name),
+                description: tool.description,
+                parameters: tool.inputSchema || { type: 'object', properties: {} },
+            }
+        }));
+    }
+
+    public async generateResponse(
+        messages: GenericOpenAIMessage[],
+        settings: ObsigentPluginSettings,
+        callbacks: StreamCallbacks,
+        availableTools?: McpTool[],
+        abortController?: AbortController,
+        responseFormat?: StructuredOutputFormat
+    ): Promise<void> {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        const apiKey = providerSettings.apiKey;
+        const apiBaseUrl = providerSettings.apiEndpoint || 'https://api.cohere.com'; // Default Cohere API base
+        const defaultModel = providerSettings.defaultModel;
+
+        if (!apiKey) {
+            callbacks.onError('Cohere API key is not set.', { kind: 'configuration' });
+            return;
+        }
+        let resolvedApiKey: string;
+        try {
+            resolvedApiKey = resolveSecretReferences(apiKey);
+        } catch (error) {
+            callbacks.onError(`Cohere API key: ${error instanceof Error ? error.message : String(error)}`, { kind: 'configuration' });
+            return;
+        }
+        if (!defaultModel) {
+            callbacks.onError('Cohere Default model is not set.', { kind: 'configuration' });
+            return;
+        }
+        const imageError = getUnsupportedImageError(messages, this.getCapabilities(settings), defaultModel);
+        if (imageError) {
+            callbacks.onError(imageError, { kind: 'configuration' });
+            return;
+        }
+        messages = replaceUnsupportedImages(messages, this.getCapabilities(settings));
+
+        // Cohere tool names may only contain letters, digits and underscores
+        const toolNameMapper = new ToolNameMapper(/[^a-zA-Z0-9_]/g);
+        let tools = availableTools && availableTools.length > 0 ? availableTools : undefined;
+        let toolChoice: CohereRequest['tool_choice'] = undefined;
+
+        // Cohere cannot force a specific tool, so only that tool is offered and a tool call is required
+        if (tools) {
+            if (providerSettings.toolChoice === 'none') {
+                toolChoice = 'NONE';
+            } else if (providerSettings.toolChoice === 'required') {
+                toolChoice = 'REQUIRED';
+            } else if (providerSettings.toolChoice === 'function') {
+                const toolName = providerSettings.toolChoiceFunction?.trim();
+                const forcedTool = tools.find(tool => tool.name === toolName);
+                if (forcedTool) {
+                    tools = [forcedTool];
+                    toolChoice = 'REQUIRED';
+                } else {
+                    console.warn(`CohereProvider: Tool "${toolName || ''}" selected as tool choice is not available. Falling back to "auto".`);
+                }
+            }
+        }
+
+        // Tool definitions are mapped first so their API-safe names take precedence over names in the history
+        const cohereTools = tools ? this.convertToCohereTools(tools, toolNameMapper) : undefined;
+
+        const requestBody: CohereRequest = {
+            model: defaultModel,
+            messages: this.convertToCohereMessages(messages, toolNameMapper),
+            stream: true,
+        };
+        if (cohereTools) {
+            requestBody.tools = cohereTools;
+            if (toolChoice) requestBody.tool_choice = toolChoice;
+        }
+
+        // Unset sampling parameters are left out by JSON.stringify, so the API defaults apply
+        const sampling = getSamplingParameters(this.providerName, providerSettings.sampling);
+        requestBody.temperature = sampling.temperature;
+        requestBody.p = sampling.topP;
+        requestBody.k = sampling.topK;
+        requestBody.max_tokens = sampling.maxTokens;
+        requestBody.stop_sequences = sampling.stopSequences;
+        requestBody.seed = sampling.seed;
+
+        // JSON mode cannot be combined with tools
+        if (responseFormat && !requestBody.tools && this.getCapabilities(settings).jsonMode) {
+            requestBody.response_format = { type: 'json_object', json_schema: responseFormat.schema };
+        }
+
+        const fullApiUrl = `${apiBaseUrl.replace(/\/+$/, '')}/v2/chat`;
+
+        try {
+            const response = await fetchWithRetry(fullApiUrl, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Accept': 'text/event-stream',
+                    'Authorization': `Bearer ${resolvedApiKey}`,
+                },
+                body: JSON.stringify(requestBody),
+                signal: abortController?.signal, // Add abort signal support
+            }, { maxAttempts: settings.maxRequestAttempts, onRetry: callbacks.onRetry });
+            callbacks.onResponse?.({ url: fullApiUrl, status: response.status });
+
+            if (!response.ok) {
+                const errorBody = await readErrorBody(response);
+                const errorJson = errorBody.json as { message?: string } | undefined;
+                const errorDetails = errorJson?.message ? `API Error: ${errorJson.message}` : `HTTP Error ${response.status}: ${errorBody.text}`;
+                console.error('Cohere API Error:', errorDetails);
+                callbacks.onError(errorDetails, httpErrorDetails(response));
+                return;
+            }
+
+            if (!response.body) {
+                callbacks.onError('Response body is null.', { kind: 'stream' });
+                return;
+            }
+
+            let finishReason: string | undefined = undefined;
+            let usage: TokenUsage | undefined = undefined;
+            // Tool calls keyed by their stream index; arguments arrive in tool-call-delta events
+            const toolCalls: Map<number, ToolCall> = new Map();
+
+            for await (const event of readSseEvents(response.body)) {
+                let parsed: CohereStreamEvent;
+                try {
+                    parsed = JSON.parse(event.data) as CohereStreamEvent;
+                } catch (e) {
+                    console.error('Error parsing Cohere stream data JSON:', e, 'Data:', event.data);
+                    continue;
+                }
+
+                switch (parsed.type) {
+                    case 'content-delta':
+                        // Reasoning models stream their thinking as separate content blocks
+                        if (parsed.delta?.message?.content?.thinking) {
+                            if (callbacks.onReasoning) callbacks.onReasoning(parsed.delta.message.content.thinking);
+                        } else if (parsed.delta?.message?.content?.text) {
+                            callbacks.onUpdate(parsed.delta.message.content.text, false);
+                        }
+                        break;
+                    case 'tool-plan-delta':
+                        // The tool plan is the model's visible reasoning before it calls tools
+                        if (parsed.delta?.message?.tool_plan) {
+                            callbacks.onUpdate(parsed.delta.message.tool_plan, false);
+                        }
+                        break;
+                    case 'tool-call-start': {
+                        const toolCallDelta = parsed.delta?.message?.tool_calls;
+                        if (toolCallDelta && parsed.index !== undefined) {
+                            toolCalls.set(parsed.index, {
+                                id: toolCallDelta.id || '',
+                                type: 'function',
+                                function: {
+                                    name: toolNameMapper.fromApiName(toolCallDelta.function?.name || ''),
+                                    arguments: toolCallDelta.function?.arguments || '',
+                                },
+                            });
+                        }
+                        break;
+                    }
+                    case 'tool-call-delta': {
+                        const toolCall = parsed.index !== undefined ? toolCalls.get(parsed.index) : undefined;
+                        if (toolCall) {
+                            toolCall.function.arguments += parsed.delta?.message?.tool_calls?.function?.arguments || '';
+                        }
+                        break;
+                    }
+                    case 'message-end': {
+                        finishReason = parsed.delta?.finish_reason;
+                        // "tokens" are the tokens the model saw; "billed_units" omit e.g. the preamble
+                        const tokenCounts = parsed.delta?.usage?.tokens || parsed.delta?.usage?.billed_units;
+                        if (tokenCounts) {
+                            usage = {
+                                inputTokens: tokenCounts.input_tokens || 0,
+                                outputTokens: tokenCounts.output_tokens || 0,
+                                cacheReadTokens: 0,
+                                cacheWriteTokens: 0,
+                            };
+                        }
+                        if (finishReason === 'ERROR') {
+                            callbacks.onError(`Cohere API Error: ${parsed.delta?.error || 'Unknown stream error'}`, { kind: 'stream' });
+                            return;
+                        }
+                        break;
+                    }
+                    default:
+                        // message-start, content-start/end, tool-call-end, citations and debug events carry nothing we need
+                        break;
+                }
+            }
+
+            if (usage && callbacks.onUsage) {
+                callbacks.onUsage(usage);
+            }
+
+            const completedToolCalls = Array.from(toolCalls.values())
+                .filter(toolCall => toolCall.id && toolCall.function.name)
+                .map(toolCall => ({ ...toolCall, function: { ...toolCall.function, arguments: toolCall.function.arguments || '{}' } }));
+            if (callbacks.onToolCall && completedToolCalls.length > 0) {
+                await callbacks.onToolCall(completedToolCalls);
+            } else {
+                callbacks.onUpdate("", true);
+            }
+            callbacks.onFinish(finishReason || "stop");
+        } catch (error) {
+            // Handle abort errors gracefully
+            if (error instanceof Error && error.name === 'AbortError') {
+                callbacks.onFinish('aborted');
+                return;
+            }
+            console.error('Cohere API Stream Request Failed:', error);
+            callbacks.onError(`Failed to connect to Cohere API: ${(error instanceof Error && error.message) || 'Unknown error'}`, { kind: 'network' });
+        }
+    }
+}
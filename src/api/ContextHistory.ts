@@ -0,0 +1,142 @@
+// src/api/ContextHistory.ts
+// Fits the chat history into the model's context window before it is sent. The stored history is never changed;
+// only the copy for one request is shortened, in this order until it fits:
+// 1. Tool outputs of earlier turns are replaced by a short preview (e.g. whole notes read by obsidian_readFile)
+// 2. The oldest turns are dropped, each with its tool calls and results so the pairs stay intact
+// 3. Tool outputs of the current turn are replaced by a preview, except the latest ones
+// 4. The latest tool outputs are cut to the space that is left
+// System messages and the current turn (from the last user message on) are always kept.
+
+import { McpTool } from '../types/mcp';
+import { OpenAIMessage } from './LLMProvider';
+import { getMessageText } from './MessageContent';
+import { TokenEstimator } from './TokenEstimator';
+
+export interface ContextHistoryResult {
+    messages: OpenAIMessage[];
+    estimatedTokens: number; // Messages and tool definitions
+    availableTokens: number; // Context window minus the space reserved for the answer
+    droppedMessages: number;
+    compactedToolResults: number;
+}
+
+// Room left for the answer when the profile sets no max tokens: a quarter of the window, at most 4096 tokens
+const DEFAULT_RESERVED_OUTPUT_TOKENS = 4096;
+
+const TOOL_RESULT_PREVIEW_LENGTH = 300;
+
+export function getReservedOutputTokens(contextWindow: number, maxTokens?: number): number {
+    if (maxTokens && maxTokens > 0) return Math.min(maxTokens, Math.floor(contextWindow / 2));
+    return Math.min(DEFAULT_RESERVED_OUTPUT_TOKENS, Math.floor(contextWindow / 4));
+}
+
+function getToolName(messages: OpenAIMessage[], toolCallId: string | undefined): string {
+    for (const message of messages) {
+        const toolCall = message.tool_calls?.find(call => call.id === toolCallId);
+        if (toolCall) return toolCall.function.name;
+    }
+    return 'a tool';
+}
+
+function compactToolResult(message: OpenAIMessage, toolName: string): OpenAIMessage | null {
+    const content = getMessageText(message.content);
+    // A preview of a short output would save nothing
+    if (content.length <= TOOL_RESULT_PREVIEW_LENGTH * 2) return null;
+    return {
+        ...message,
+        content: `[Output of ${toolName} removed to fit the context window. It began with: "${content.slice(0, TOOL_RESULT_PREVIEW_LENGTH)}…" (${content.length} characters)]`,
+    };
+}
+
+export function buildContextHistory(history: OpenAIMessage[], tools: McpTool[], estimator: TokenEstimator, contextWindow: number, reservedOutputTokens: number): ContextHistoryResult {
+    const toolTokens = estimator.estimateTools(tools);
+    const availableTokens = Math.max(0, contextWindow - reservedOutputTokens);
+    // Shortened copies; dropped messages are set to null
+    const messages: (OpenAIMessage | null)[] = [...history];
+    const messageTokens = history.map(message => estimator.estimateMessage(message));
+    let totalTokens = toolTokens + messageTokens.reduce((total, tokens) => total + tokens, 0);
+    let droppedMessages = 0;
+    let compactedToolResults = 0;
+
+    const result = (): ContextHistoryResult => ({
+        messages: messages.filter((message): message is OpenAIMessage => message !== null),
+        estimatedTokens: totalTokens,
+        availableTokens,
+        droppedMessages,
+        compactedToolResults,
+    });
+    const fits = () => totalTokens <= availableTokens;
+    const replace = (index: number, message: OpenAIMessage | null) => {
+        const tokens = message ? estimator.estimateMessage(message) : 0;
+        totalTokens += tokens - messageTokens[index];
+        messageTokens[index] = tokens;
+        messages[index] = message;
+    };
+    const compactToolResults = (fromIndex: number, toIndex: number) => {
+        for (let i = fromIndex; i < toIndex && !fits(); i++) {
+            const message = messages[i];
+            if (message?.role !== 'tool') continue;
+            const compacted = compactToolResult(message, getToolName(history, message.tool_call_id));
+            if (compacted) {
+                replace(i, compacted);
+                compactedToolResults++;
+            }
+        }
+    };
+
+    if (contextWindow <= 0 || fits()) return result();
+
+    let currentTurnStart = history.length;
+    for (let i = history.length - 1; i >= 0; i--) {
+        if (history[i].role === 'user') {
+            currentTurnStart = i;
+            break;
+        }
+    }
+
+    // 1. Tool outputs of earlier turns, oldest first
+    compactToolResults(0, currentTurnStart);
+
+    // 2. Whole earlier turns, oldest first. A turn starts at a user message; system messages stay.
+    for (let i = 0; i < currentTurnStart && !fits(); i++) {
+        if (history[i].role === 'system' || !messages[i]) continue;
+        // Messages before the first user message are dropped one by one
+        let turnEnd = i + 1;
+        if (history[i].role === 'user') {
+            while (turnEnd < currentTurnStart && history[turnEnd].role !== 'user') turnEnd++;
+        }
+        for (let j = i; j < turnEnd; j++) {
+            if (messages[j] && history[j].role !== 'system') {
+                replace(j, null);
+                droppedMessages++;
+            }
+        }
+    }
+
+    // 3. Tool outputs of the current turn, except the results of the last tool calls
+    let latestResultsStart = history.length;
+    while (latestResultsStart > currentTurnStart && history[latestResultsStart - 1].role === 'tool') {
+        latestResultsStart--;
+    }
+    compactToolResults(currentTurnStart, latestResultsStart);
+
+    // 4. The latest tool outputs share what is left
+    if (!fits()) {
+        const latestResultTokens = messageTokens.slice(latestResultsStart).reduce((total, tokens) => total + tokens, 0);
+        const remainingTokens = availableTokens - (totalTokens - latestResultTokens);
+        const ratio = latestResultTokens > 0 ? Math.max(0, remainingTokens) / latestResultTokens : 0;
+        for (let i = latestResultsStart; i < history.length; i++) {
+            const message = messages[i];
+            if (!message) continue;
+            const content = getMessageText(message.content);
+            // A little below the ratio, since the note added to the output takes space too
+            const keptLength = Math.floor(content.length * ratio * 0.95);
+            if (keptLength >= content.length) continue;
+            replace(i, { ...message, content: `${content.slice(0, keptLength)}\n[Output cut to fit the context window: ${content.length - keptLength} of ${content.length} characters removed]` });
+            compactedToolResults++;
+        }
+    }
+
+    // If the current turn alone does not fit, it is sent anyway and the provider reports the error
+    return result();
+}
@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import type { Server } from 'bun';
+import { ObsigentPluginSettings } from '../main';
+import { McpTool } from '../types/mcp';
+import { GoogleProvider, convertToGeminiSchema } from './GoogleProvider';
+import { OpenAIMessage, ToolCall } from './LLMProvider';
+
+describe('convertToGeminiSchema', () => {
+    test('upper-cases types and converts nested schemas', () => {
+        expect(convertToGeminiSchema({
+            type: 'object',
+            properties: { tags: { type: 'array', items: { type: 'string' } } },
+            required: ['tags'],
+        })).toEqual({
+            type: 'OBJECT',
+            properties: { tags: { type: 'ARRAY', items: { type: 'STRING' } } },
+            required: ['tags'],
+        });
+    });
+
+    test('turns a union with null into a nullable type', () => {
+        expect(convertToGeminiSchema({ type: ['string', 'null'], description: 'Optional folder' })).toEqual({ type: 'STRING', nullable: true, description: 'Optional folder' });
+        expect(convertToGeminiSchema({ type: ['null', 'integer'] })).toEqual({ type: 'INTEGER', nullable: true });
+        expect(convertToGeminiSchema({ type: ['number', 'string'] })).toEqual({ type: 'NUMBER' });
+    });
+});
+
+// A stand-in for the Gemini API that records the request and streams a fixed answer
+describe('GoogleProvider against a local server', () => {
+    let server: Server;
+    let requestBody: {
+        contents: { parts: { functionResponse?: { response: Record<string, unknown> } }[] }[];
+        tools: { functionDeclarations: { parameters: { properties: Record<string, unknown> } }[] }[];
+    };
+    let responseStatus = 200;
+    let responseBody = '';
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            async fetch(request) {
+                requestBody = await request.json() as typeof requestBody;
+                return new Response(responseBody, { status: responseStatus, headers: { 'Content-Type': 'text/event-stream' } });
+            },
+        });
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    const settings = () => ({
+        providerProfiles: [{
+            id: 'gemini',
+            name: 'Gemini',
+            providerType: 'google',
+            settings: { apiKey: 'test-key', apiEndpoint: `http://localhost:${server.port}`, defaultModel: 'gemini-test' },
+        }],
+    }) as unknown as ObsigentPluginSettings;
+
+    const tools: McpTool[] = [{
+        name: 'obsidian_search',
+        description: 'Searches the vault',
+        inputSchema: { type: 'object', properties: { query: { type: 'string' }, folder: { type: ['string', 'null'] } }, required: ['query'] },
+    }];
+
+    async function run(messages: OpenAIMessage[] = [{ role: 'user', content: 'Find my notes on bees' }]): Promise<{ text: string; toolCalls: ToolCall[]; errors: string[]; finishReason?: string }> {
+        const result: { text: string; toolCalls: ToolCall[]; errors: string[]; finishReason?: string } = { text: '', toolCalls: [], errors: [] };
+        await new GoogleProvider('gemini').generateResponse(messages, settings(), {
+            onUpdate: chunk => { result.text += chunk; },
+            onToolCall: async toolCalls => { result.toolCalls.push(...toolCalls); },
+            onError: message => { result.errors.push(message); },
+            onFinish: reason => { result.finishReason = reason; },
+        }, tools);
+        return result;
+    }
+
+    test('sends nullable tool parameters and reads streamed function calls', async () => {
+        responseStatus = 200;
+        responseBody = 'data: {"candidates":[{"content":{"parts":[{"text":"Searching"}]}}]}\n\n'
+            + 'data: {"candidates":[{"content":{"parts":[{"functionCall":{"name":"obsidian_search","args":{"query":"bees"}}}]},"finishReason":"STOP"}]}\n\n';
+        const result = await run();
+
+        expect(result.errors).toEqual([]);
+        expect(requestBody.tools[0].functionDeclarations[0].parameters.properties.folder).toEqual({ type: 'STRING', nullable: true });
+        expect(result.text).toBe('Searching');
+        expect(result.toolCalls.map(call => [call.function.name, JSON.parse(call.function.arguments)])).toEqual([['obsidian_search', { query: 'bees' }]]);
+        expect(result.finishReason).toBe('STOP');
+    });
+
+    test('sends tool results flagged as errors as error responses', async () => {
+        responseStatus = 200;
+        responseBody = 'data: {"candidates":[{"content":{"parts":[{"text":"No results"}]},"finishReason":"STOP"}]}\n\n';
+        const toolCall: ToolCall = { id: 'call_1', type: 'function', function: { name: 'obsidian_search', arguments: '{"query":"bees"}' } };
+        await run([
+            { role: 'user', content: 'Find my notes on bees' },
+            { role: 'assistant', content: null, tool_calls: [toolCall] },
+            { role: 'tool', tool_call_id: 'call_1', content: 'Error: The vault is locked', isError: true },
+            { role: 'assistant', content: null, tool_calls: [{ ...toolCall, id: 'call_2' }] },
+            { role: 'tool', tool_call_id: 'call_2', content: 'Error: is the start of this note' },
+        ]);
+
+        const responses = requestBody.contents.flatMap(content => content.parts).flatMap(part => part.functionResponse ? [part.functionResponse.response] : []);
+        expect(responses).toEqual([{ error: 'Error: The vault is locked' }, { content: 'Error: is the start of this note' }]);
+    });
+
+    test('reports the API error message of a failed request', async () => {
+        responseStatus = 400;
+        responseBody = '{"error":{"code":400,"message":"Invalid schema","status":"INVALID_ARGUMENT"}}';
+        const result = await run();
+
+        expect(result.errors).toEqual(['INVALID_ARGUMENT: Invalid schema']);
+    });
+});
@@ -0,0 +1,443 @@
+// src/api/GoogleProvider.ts
+import { ObsigentPluginSettings } from '../main';
+import { McpTool, McpToolSchema } from '../types/mcp';
+import { LLMProvider, getProfileSettings, httpErrorDetails, readErrorBody, StreamCallbacks, ProviderSettings, ProviderCapabilities, ValidationReport, ToolCall, TokenUsage, OpenAIMessage as GenericOpenAIMessage } from './LLMProvider';
+import { fetchWithRetry } from './RequestRetry';
+import { getSamplingParameters } from './SamplingParameters';
+import { StructuredOutputFormat } from './StructuredOutput';
+import { ToolNameMapper } from './ToolNameMapper';
+import { readSseEvents } from './StreamDecoder';
+import { detectModelCapabilities } from './ModelCapabilities';
+import { validateProviderConnection } from './ProviderValidation';
+import { resolveSecretReferences } from './SecretReferences';
+import { getMessageImages, getMessageText, getUnsupportedImageError, replaceUnsupportedImages } from './MessageContent';
+
+// Google Gemini specific interfaces (Generative Language API, v1beta)
+interface GeminiFunctionCall {
+    name: string;
+    args?: Record<string, unknown>;
+}
+
+interface GeminiPart {
+    text?: string;
+    thought?: boolean; // Marks a text part as a thought summary
+    inlineData?: { mimeType: string; data: string }; // Base64 image
+    functionCall?: GeminiFunctionCall;
+    functionResponse?: {
+        name: string;
+        response: Record<string, unknown>;
+    };
+}
+
+interface GeminiContent {
+    role: 'user' | 'model';
+    parts: GeminiPart[];
+}
+
+// Gemini uses an OpenAPI subset for function parameters, with upper-case type names
+interface GeminiSchema {
+    type: string;
+    nullable?: boolean;
+    description?: string;
+    enum?: string[];
+    items?: GeminiSchema;
+    properties?: Record<string, GeminiSchema>;
+    required?: string[];
+}
+
+// The subset of JSON schema found in McpToolSchema that Gemini understands
+interface JsonSchemaLike {
+    type?: string | string[]; // A list for unions such as ["string", "null"]
+    description?: string;
+    enum?: string[];
+    items?: JsonSchemaLike;
+    properties?: Record<string, JsonSchemaLike>;
+    required?: string[];
+}
+
+interface GeminiFunctionDeclaration {
+    name: string;
+    description?: string;
+    parameters?: GeminiSchema; // Must be omitted for functions without parameters
+}
+
+interface GeminiRequest {
+    contents: GeminiContent[];
+    systemInstruction?: { parts: GeminiPart[] };
+    tools?: { functionDeclarations: GeminiFunctionDeclaration[] }[];
+    toolConfig?: {
+        functionCallingConfig: {
+            mode: 'AUTO' | 'ANY' | 'NONE';
+            allowedFunctionNames?: string[];
+        };
+    };
+    generationConfig?: {
+        temperature?: number;
+        topP?: number;
+        topK?: number;
+        maxOutputTokens?: number;
+        stopSequences?: string[];
+        seed?: number;
+        responseMimeType?: string;
+        thinkingConfig?: { includeThoughts?: boolean; thinkingBudget?: number };
+    };
+}
+
+interface GeminiStreamResponse {
+    candidates?: {
+        content?: { role?: string; parts?: GeminiPart[] };
+        finishReason?: string;
+    }[];
+    usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+        cachedContentTokenCount?: number; // Part of promptTokenCount
+        thoughtsTokenCount?: number; // Not part of candidatesTokenCount, billed as output
+        totalTokenCount?: number;
+    };
+    error?: { code?: number; message?: string; status?: string };
+}
+
+// Converts the JSON schema of tool parameters to the OpenAPI subset Gemini accepts
+export function convertToGeminiSchema(schema: JsonSchemaLike): GeminiSchema {
+    // Gemini takes a single type and marks optional values as nullable, so a union such as ["string", "null"]
+    // becomes STRING with nullable set. Of other unions only the first type is kept.
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter((type): type is string => typeof type === 'string');
+    const geminiSchema: GeminiSchema = { type: (types.find(type => type !== 'null') || 'string').toUpperCase() };
+    if (types.includes('null')) geminiSchema.nullable = true;
+    if (schema.description) geminiSchema.description = schema.description;
+    if (schema.enum && schema.enum.length > 0) geminiSchema.enum = schema.enum;
+    if (schema.items) geminiSchema.items = convertToGeminiSchema(schema.items);
+    if (schema.properties) {
+        geminiSchema.properties = {};
+        for (const [key, value] of Object.entries(schema.properties)) {
+            geminiSchema.properties[key] = convertToGeminiSchema(value);
+        }
+    }
+    if (schema.required && schema.required.length > 0) geminiSchema.required = schema.required;
+    return geminiSchema;
+}
+
+export class GoogleProvider implements LLMProvider {
+    readonly providerName = "google";
+    readonly profileId: string;
+
+    constructor(profileId: string) {
+        this.profileId = profileId;
+    }
+
+    public getCapabilities(settings: ObsigentPluginSettings): ProviderCapabilities {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        return detectModelCapabilities(this.providerName, providerSettings.defaultModel, providerSettings.capabilityOverrides);
+    }
+
+    public async validateSettings(settings: ObsigentPluginSettings): Promise<ValidationReport> {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        return validateProviderConnection(this, settings, { endpoint: providerSettings.apiEndpoint || 'https://generativelanguage.googleapis.com', apiKeyRequired: true });
+    }
+
+    private convertToGeminiContents(messages: GenericOpenAIMessage[], toolNameMapper: ToolNameMapper): { contents: GeminiContent[], systemInstruction?: string } {
+        const contents: GeminiContent[] = [];
+        const systemPrompts: string[] = [];
+        // Gemini pairs function responses with calls by name, not by ID
+        const toolNamesById: Map<string, string> = new Map();
+
+        // Gemini expects alternating roles, so consecutive parts of the same role are merged into one content entry
+        const pushParts = (role: 'user' | 'model', parts: GeminiPart[]) => {
+            if (parts.length === 0) return;
+            const lastContent = contents[contents.length - 1];
+            if (lastContent && lastContent.role === role) {
+                lastContent.parts.push(...parts);
+            } else {
+                contents.push({ role, parts });
+            }
+        };
+
+        for (const msg of messages) {
+            if (msg.role === 'system') {
+                if (msg.content) {
+                    systemPrompts.push(getMessageText(msg.content));
+                }
+                continue;
+            }
+
+            if (msg.role === 'tool') {
+                const toolName = msg.tool_call_id ? toolNamesById.get(msg.tool_call_id) : undefined;
+                if (!toolName) {
+                    console.warn("GoogleProvider: Skipping tool result without a matching function call.");
+                    continue;
+                }
+                const resultText = getMessageText(msg.content);
+                pushParts('user', [{
+                    functionResponse: {
+                        name: toolNameMapper.toApiName(toolName),
+                        response: msg.isError ? { error: resultText } : { content: resultText },
+                    }
+                }]);
+                continue;
+            }
+
+            const parts: GeminiPart[] = [];
+            const text = getMessageText(msg.content);
+            if (text) {
+                parts.push({ text });
+            }
+            for (const image of getMessageImages(msg.content)) {
+                parts.push({ inlineData: { mimeType: image.mediaType, data: image.data } });
+            }
+            if (msg.role === 'assistant' && msg.tool_calls) {
+                for (const toolCall of msg.tool_calls) {
+                    toolNamesById.set(toolCall.id, toolCall.function.name);
+                    parts.push({
+                        functionCall: {
+                            name: toolNameMapper.toApiName(toolCall.function.name),
+                            args: this.parseToolArguments(toolCall.function.arguments),
+                        }
+                    });
+                }
+            }
+            pushParts(msg.role === 'assistant' ? 'model' : 'user', parts);
+        }
+
+        return { contents, systemInstruction: systemPrompts.length > 0 ? systemPrompts.join('\n\n') : undefined };
+    }
+
+    private parseToolArguments(argumentsJson: string): Record<string, unknown> {
+        if (!argumentsJson) return {};
+        try {
+            const parsed = JSON.parse(argumentsJson);
+            return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+        } catch (e) {
+            console.warn("GoogleProvider: Could not parse tool call arguments, sending empty arguments.", argumentsJson);
+            return {};
+        }
+    }
+
+    private convertToFunctionDeclarations(tools: McpTool[], toolNameMapper: ToolNameMapper): GeminiFunctionDeclaration[] {
+        return tools.map(tool => {
+            const declaration: GeminiFunctionDeclaration = {
+                name: toolNameMapper.toApiName(tool.name),
+                description: tool.description,
+            };
+            const schema: McpToolSchema | undefined = tool.inputSchema;
+            // Gemini rejects OBJECT schemas without properties
+            if (schema && schema.properties && Object.keys(schema.properties).length > 0) {
+                declaration.parameters = convertToGeminiSchema(schema as JsonSchemaLike);
+            }
+            return declaration;
+        });
+    }
+
+    private resolveToolConfig(providerSettings: ProviderSettings, tools: McpTool[], toolNameMapper: ToolNameMapper): NonNullable<GeminiRequest['toolConfig']> {
+        switch (providerSettings.toolChoice) {
+            case 'none':
+                return { functionCallingConfig: { mode: 'NONE' } };
+            case 'required':
+                return { functionCallingConfig: { mode: 'ANY' } };
+            case 'function': {
+                const toolName = providerSettings.toolChoiceFunction?.trim();
+                if (toolName && tools.some(tool => tool.name === toolName)) {
+                    return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [toolNameMapper.toApiName(toolName)] } };
+                }
+                console.warn(`GoogleProvider: Tool "${toolName || ''}" selected as tool choice is not available. Falling back to "auto".`);
+                return { functionCallingConfig: { mode: 'AUTO' } };
+            }
+            default:
+                return { functionCallingConfig: { mode: 'AUTO' } };
+        }
+    }
+
+    public async generateResponse(
+        messages: GenericOpenAIMessage[],
+        settings: ObsigentPluginSettings,
+        callbacks: StreamCallbacks,
+        availableTools?: McpTool[],
+        abortController?: AbortController,
+        responseFormat?: StructuredOutputFormat
+    ): Promise<void> {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        const apiKey = providerSettings.apiKey;
+        const apiBaseUrl = providerSettings.apiEndpoint || 'https://generativelanguage.googleapis.com'; // Default Gemini API base
+        const defaultModel = providerSettings.defaultModel;
+
+        if (!apiKey) {
+            callbacks.onError('Google AI API key is not set.', { kind: 'configuration' });
+            return;
+        }
+        let resolvedApiKey: string;
+        try {
+            resolvedApiKey = resolveSecretReferences(apiKey);
+        } catch (error) {
+            callbacks.onError(`Google AI API key: ${error instanceof Error ? error.message : String(error)}`, { kind: 'configuration' });
+            return;
+        }
+        if (!defaultModel) {
+            callbacks.onError('Google AI Default model is not set.', { kind: 'configuration' });
+            return;
+        }
+        const imageError = getUnsupportedImageError(messages, this.getCapabilities(settings), defaultModel);
+        if (imageError) {
+            callbacks.onError(imageError, { kind: 'configuration' });
+            return;
+        }
+        messages = replaceUnsupportedImages(messages, this.getCapabilities(settings));
+
+        const toolNameMapper = new ToolNameMapper();
+        let functionDeclarations: GeminiFunctionDeclaration[] | undefined;
+        try {
+            functionDeclarations = availableTools && availableTools.length > 0 ? this.convertToFunctionDeclarations(availableTools, toolNameMapper) : undefined;
+        } catch (error) {
+            callbacks.onError(`Could not convert the tool definitions for Google AI: ${error instanceof Error ? error.message : String(error)}`, { kind: 'configuration' });
+            return;
+        }
+        const { contents, systemInstruction } = this.convertToGeminiContents(messages, toolNameMapper);
+
+        if (contents.length === 0) {
+            callbacks.onError("No messages to send to Google AI.", { kind: 'configuration' });
+            return;
+        }
+
+        const requestBody: GeminiRequest = { contents };
+
+        if (systemInstruction) {
+            requestBody.systemInstruction = { parts: [{ text: systemInstruction }] };
+        }
+
+        if (functionDeclarations && availableTools) {
+            requestBody.tools = [{ functionDeclarations }];
+            requestBody.toolConfig = this.resolveToolConfig(providerSettings, availableTools, toolNameMapper);
+        }
+
+        const sampling = getSamplingParameters(this.providerName, providerSettings.sampling);
+        if (Object.keys(sampling).length > 0) {
+            requestBody.generationConfig = {
+                temperature: sampling.temperature,
+                topP: sampling.topP,
+                topK: sampling.topK,
+                maxOutputTokens: sampling.maxTokens,
+                stopSequences: sampling.stopSequences,
+                seed: sampling.seed,
+            };
+        }
+
+        // Gemini's response schemas cannot describe objects with free-form keys, so only JSON mode is requested
+        // and the prompt describes the structure
+        if (responseFormat && this.getCapabilities(settings).jsonMode) {
+            requestBody.generationConfig = { ...requestBody.generationConfig, responseMimeType: 'application/json' };
+        }
+
+        // Thinking models only stream summaries of their thoughts when asked to
+        if (this.getCapabilities(settings).reasoning) {
+            requestBody.generationConfig = {
+                ...requestBody.generationConfig,
+                thinkingConfig: {
+                    includeThoughts: true,
+                    thinkingBudget: providerSettings.thinkingBudget,
+                },
+            };
+        }
+
+        const modelPath = defaultModel.startsWith('models/') ? defaultModel : `models/${defaultModel}`;
+        const fullApiUrl = `${apiBaseUrl.replace(/\/+$/, '')}/v1beta/${modelPath}:streamGenerateContent?alt=sse`;
+
+        try {
+            const response = await fetchWithRetry(fullApiUrl, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-goog-api-key': resolvedApiKey,
+                },
+                body: JSON.stringify(requestBody),
+                signal: abortController?.signal, // Add abort signal support
+            }, { maxAttempts: settings.maxRequestAttempts, onRetry: callbacks.onRetry });
+            callbacks.onResponse?.({ url: fullApiUrl, status: response.status });
+
+            if (!response.ok) {
+                const errorBody = await readErrorBody(response);
+                const errorJson = errorBody.json as GeminiStreamResponse | undefined;
+                const errorDetails = errorJson?.error?.message
+                    ? `${errorJson.error.status || 'API Error'}: ${errorJson.error.message}`
+                    : `HTTP Error ${response.status}: ${errorBody.text}`;
+                console.error('Google AI API Error:', errorDetails);
+                callbacks.onError(errorDetails, httpErrorDetails(response));
+                return;
+            }
+
+            if (!response.body) {
+                callbacks.onError('Response body is null.', { kind: 'stream' });
+                return;
+            }
+
+            let finishReason: string | undefined = undefined;
+            let usage: TokenUsage | undefined = undefined;
+            const collectedToolCalls: ToolCall[] = [];
+
+            for await (const event of readSseEvents(response.body)) {
+                let parsed: GeminiStreamResponse;
+                try {
+                    parsed = JSON.parse(event.data) as GeminiStreamResponse;
+                } catch (e) {
+                    console.error('Error parsing Google AI stream chunk:', e, 'Chunk:', event.data);
+                    continue;
+                }
+
+                if (parsed.error) {
+                    callbacks.onError(`Google AI API Error: ${parsed.error.message || 'Unknown stream error'}`, { kind: 'stream' });
+                    return;
+                }
+
+                const candidate = parsed.candidates?.[0];
+                for (const part of candidate?.content?.parts || []) {
+                    if (part.text && part.thought) {
+                        if (callbacks.onReasoning) callbacks.onReasoning(part.text);
+                    } else if (part.text) {
+                        callbacks.onUpdate(part.text, false);
+                    }
+                    if (part.functionCall) {
+                        // Gemini does not return call IDs, so we generate our own to pair results with calls in chatHistory
+                        collectedToolCalls.push({
+                            id: `gemini_call_${Date.now()}_${collectedToolCalls.length}`,
+                            type: 'function',
+                            function: {
+                                name: toolNameMapper.fromApiName(part.functionCall.name),
+                                arguments: JSON.stringify(part.functionCall.args || {}),
+                            },
+                        });
+                    }
+                }
+                if (candidate?.finishReason) {
+                    finishReason = candidate.finishReason;
+                }
+                // Every chunk may carry usage metadata; the last one holds the totals
+                if (parsed.usageMetadata) {
+                    const cachedTokens = parsed.usageMetadata.cachedContentTokenCount || 0;
+                    usage = {
+                        inputTokens: (parsed.usageMetadata.promptTokenCount || 0) - cachedTokens,
+                        outputTokens: (parsed.usageMetadata.candidatesTokenCount || 0) + (parsed.usageMetadata.thoughtsTokenCount || 0),
+                        cacheReadTokens: cachedTokens,
+                        cacheWriteTokens: 0,
+                    };
+                }
+            }
+
+            if (usage && callbacks.onUsage) {
+                callbacks.onUsage(usage);
+            }
+
+            if (callbacks.onToolCall && collectedToolCalls.length > 0) {
+                await callbacks.onToolCall(collectedToolCalls);
+            } else {
+                callbacks.onUpdate("", true);
+            }
+            callbacks.onFinish(finishReason || "stop");
+        } catch (error) {
+            // Handle abort errors gracefully
+            if (error instanceof Error && error.name === 'AbortError') {
+                callbacks.onFinish('aborted');
+                return;
+            }
+            console.error('Google AI API Stream Request Failed:', error);
+            callbacks.onError(`Failed to connect to Google AI API: ${(error instanceof Error && error.message) || 'Unknown error'}`, { kind: 'network' });
+        }
+    }
+}
@@ -3,6 +3,9 @@ import { ObsigentPluginSettings } from '../main';
 import { OpenAIMessage, OpenAIToolCall } from './OpenAIProvider'; // Imported from OpenAIProvider
 export type { OpenAIMessage, OpenAIToolCall }; // Re-export OpenAIMessage for use by other modules importing from LLMProvider
 import { McpTool } from '../types/mcp'; // Corrected import path
+import { RetryInfo } from './RequestRetry';
+import { SamplingParameters } from './SamplingParameters';
+import { StructuredOutputFormat } from './StructuredOutput';
 
 // Define ToolCall and ToolCallFunction here as they are used by StreamCallbacks
 export interface ToolCallFunction {
@@ -24,6 +27,25 @@ export interface StreamCallbacks {
     onToolCall?: (toolCalls: ToolCall[]) => Promise<void>; 
     onError: (errorMsg: string, errorDetails?: unknown) => void; 
     onFinish: (reason?: string) => void; 
+    onUsage?: (usage: TokenUsage) => void; // Called once per request if the API reported usage, before onToolCall/onFinish
+    onReasoning?: (reasoningChunk: string) => void; // The model's thinking, streamed separately from the answer
+    onRetry?: (retry: RetryInfo) => void; // The request failed before streaming started and is sent again after retry.delayMs
+    onResponse?: (response: HttpResponseInfo) => void; // The API answered (after any retries), before the body is read
+}
+
+// The HTTP exchange behind a request, for the request inspector. The URL may contain secrets and must be redacted before display.
+export interface HttpResponseInfo {
+    url: string;
+    status: number;
+}
+
+// Token counts of one request, normalized across providers.
+// inputTokens excludes cached prompt tokens, so the prompt size is inputTokens + cacheReadTokens + cacheWriteTokens.
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number; // Includes reasoning tokens where the API counts them as output
+    cacheReadTokens: number; // Prompt tokens served from the provider's prompt cache
+    cacheWriteTokens: number; // Prompt tokens written to the prompt cache (Anthropic only)
 }
 
 // Define a structure for tool calls that the LLM provider can return
@@ -40,20 +62,74 @@ export interface StreamCallbacks {
 // }
 
 
+// What a provider/model combination supports, so callers can adapt requests and UI
+export interface ProviderCapabilities {
+    tools: boolean; // Native function/tool calling
+    vision: boolean; // Image input
+    streaming: boolean;
+    jsonMode: boolean; // Structured or JSON-only output
+    reasoning: boolean; // Emits separate reasoning/thinking content
+    contextWindow: number; // In tokens
+}
+
 export interface LLMProvider {
     readonly providerName: string;
+    readonly profileId: string; // The provider profile whose settings are used for requests
 
-    // Method to generate response, potentially with streaming and tool use
+    // Capabilities of the currently configured model of this provider
+    getCapabilities(settings: ObsigentPluginSettings): ProviderCapabilities;
+
+    // Method to generate response, potentially with streaming and tool use.
+    // With responseFormat, the provider constrains the answer to a JSON object of that schema where its API
+    // allows it and streams the JSON through onUpdate; the caller validates the result either way.
     generateResponse(
         messages: OpenAIMessage[], 
         settings: ObsigentPluginSettings, 
         callbacks: StreamCallbacks,
         availableTools?: McpTool[],
-        abortController?: AbortController
+        abortController?: AbortController,
+        responseFormat?: StructuredOutputFormat
     ): Promise<void>;
 
-    // Optional: Method to validate settings for this provider
-    // validateSettings?(providerSettings: any): { isValid: boolean; errors?: string[] };
+    // Optional: Lists the model IDs available with the current settings, for model selection in the settings.
+    // Throws with a user-facing message if the models cannot be fetched.
+    listModels?(settings: ObsigentPluginSettings): Promise<string[]>;
+    // Optional: Whether listModels works with the current settings; assumed true when listModels exists
+    canListModels?(settings: ObsigentPluginSettings): boolean;
+
+    // Checks the configuration step by step (settings, endpoint and key, model, chat, tools) against the live API
+    validateSettings(settings: ObsigentPluginSettings): Promise<ValidationReport>;
+}
+
+export type ValidationStepStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+// One step of a connection test, e.g. "Endpoint and API key"
+export interface ValidationStep {
+    name: string;
+    status: ValidationStepStatus;
+    message: string;
+}
+
+export interface ValidationReport {
+    ok: boolean; // True if no step failed
+    steps: ValidationStep[];
+}
+
+// How the model may use the tools it is given.
+// 'function' forces the tool named in ProviderSettings.toolChoiceFunction.
+export type ToolChoiceMode = 'auto' | 'none' | 'required' | 'function';
+
+export const TOOL_CHOICE_MODE_NAMES: Record<ToolChoiceMode, string> = {
+    auto: "Auto (model decides)",
+    none: "None (never call tools)",
+    required: "Required (always call a tool)",
+    function: "Specific tool",
+};
+
+// A custom header or query parameter sent with every request of a profile
+export interface RequestParameter {
+    name: string;
+    value: string; // May reference secrets, see SecretReferences
 }
 
 // Define a type for provider-specific settings
@@ -61,6 +137,17 @@ export interface ProviderSettings {
     apiKey?: string;
     apiEndpoint?: string;
     defaultModel?: string;
+    toolChoice?: ToolChoiceMode;
+    toolChoiceFunction?: string; // Tool name used when toolChoice is 'function'
+    capabilityOverrides?: Partial<ProviderCapabilities>; // Overrides for the capabilities detected from the model name
+    thinkingBudget?: number; // Tokens the model may spend on thinking. Anthropic: unset or 0 disables thinking; Google: unset keeps the model default
+    promptCaching?: boolean; // Anthropic: cache_control breakpoints on tools, system prompt and history; unset means enabled
+    sampling?: SamplingParameters; // Temperature, top_p, max tokens etc.; unset parameters keep the API defaults
+    azure?: boolean; // OpenAI: Azure OpenAI mode with api-key header, api-version query parameter and the model as deployment name
+    azureApiVersion?: string; // OpenAI in Azure mode; unset uses DEFAULT_AZURE_API_VERSION
+    customHeaders?: RequestParameter[]; // OpenAI: sent with every request, overriding the default headers
+    customQueryParameters?: RequestParameter[]; // OpenAI: added to every request URL
+    fixturePath?: string; // Replay: vault-relative path of the fixture file to play back
     // Add other common or provider-specific fields here
     [key: string]: unknown; // Allow for arbitrary provider-specific settings
 }
@@ -71,6 +158,7 @@ export type LLMProviderType =
     | 'google' 
     | 'cohere' 
     | 'ollama' 
+    | 'replay'
     /* | add other providers here */ ;
 
 export const ALL_LLM_PROVIDERS: LLMProviderType[] = [
@@ -78,7 +166,8 @@ export const ALL_LLM_PROVIDERS: LLMProviderType[] = [
     'anthropic', 
     'google', 
     'cohere', 
-    'ollama'
+    'ollama',
+    'replay'
 ];
 
 export const LLM_PROVIDER_NAMES: Record<LLMProviderType, string> = {
@@ -87,4 +176,83 @@ export const LLM_PROVIDER_NAMES: Record<LLMProviderType, string> = {
     google: "Google AI",
     cohere: "Cohere",
     ollama: "Ollama (Self-Hosted)",
+    replay: "Replay (Recorded Fixture)",
 };
+
+// A named provider configuration. Several profiles may share a provider type,
+// e.g. OpenAI itself, an internal gateway and LM Studio all speak the OpenAI protocol.
+export interface ProviderProfile {
+    id: string; // Stable, used to reference the profile from other settings
+    name: string; // Shown in the settings and the chat view
+    providerType: LLMProviderType;
+    settings: ProviderSettings;
+}
+
+// Work the plugin sends to a model; each task can be routed to its own profile and model.
+// Add a task here only together with the feature that runs it, otherwise its route does nothing.
+export type LLMTask = 'chat' | 'commandAnalysis';
+
+export const ALL_LLM_TASKS: LLMTask[] = ['chat', 'commandAnalysis'];
+
+export const LLM_TASK_NAMES: Record<LLMTask, string> = {
+    chat: "Chat",
+    commandAnalysis: "Command Analysis",
+};
+
+export interface TaskRoute {
+    profileId?: string; // Unset: the active profile
+    model?: string; // Unset: the profile's default model
+}
+
+export function findProviderProfile(settings: ObsigentPluginSettings, profileId: string): ProviderProfile | undefined {
+    return settings.providerProfiles?.find(profile => profile.id === profileId);
+}
+
+// Settings of a profile; an unknown profile has empty settings, which fail validation like an unconfigured provider
+export function getProfileSettings(settings: ObsigentPluginSettings, profileId: string): ProviderSettings {
+    return findProviderProfile(settings, profileId)?.settings || {};
+}
+
+// Passed as errorDetails to StreamCallbacks.onError, so callers can tell which failures another provider may not have
+export interface ProviderErrorDetails {
+    kind: 'configuration' | 'network' | 'http' | 'stream';
+    status?: number; // HTTP status, for 'http'
+    retryAfter?: string; // Raw Retry-After header, if the server sent one
+}
+
+export function httpErrorDetails(response: Response): ProviderErrorDetails {
+    return { kind: 'http', status: response.status, retryAfter: response.headers.get('retry-after') ?? undefined };
+}
+
+// Longer error bodies, such as a proxy's HTML error page, are cut in the error message
+const MAX_ERROR_BODY_LENGTH = 1000;
+
+// Reads the body of a failed response once. A body can only be read once, so parsing it as JSON and reading it again
+// as text would throw. json is undefined if the body is not JSON; text is "No additional details" if it is empty.
+export async function readErrorBody(response: Response): Promise<{ json: unknown; text: string }> {
+    let text = '';
+    try {
+        text = await response.text();
+    } catch (error) {
+        // The connection may drop while the body is read; the status still describes the error
+    }
+    let json: unknown = undefined;
+    try {
+        json = text ? JSON.parse(text) : undefined;
+    } catch (error) {
+        // Not JSON, e.g. an HTML error page
+    }
+    const trimmedText = text.trim();
+    return {
+        json,
+        text: !trimmedText ? 'No additional details' : trimmedText.length > MAX_ERROR_BODY_LENGTH ? `${trimmedText.slice(0, MAX_ERROR_BODY_LENGTH)}…` : trimmedText,
+    };
+}
+
+// The service is unreachable, failing or rejects the credentials; nothing is wrong with the request itself
+export function isFallbackError(errorDetails: unknown): boolean {
+    if (!errorDetails || typeof errorDetails !== 'object' || !('kind' in errorDetails)) return false;
+    const details = errorDetails as ProviderErrorDetails;
+    if (details.kind === 'network') return true;
+    return details.kind === 'http' && details.status !== undefined && (details.status >= 500 || details.status === 401 || details.status === 403);
+}
@@ -0,0 +1,95 @@
+// src/api/MessageContent.ts
+// Helpers for message content, which is either plain text or a list of text and image parts (OpenAI's format).
+// Images are kept as base64 data URLs, so every provider can convert them without fetching anything.
+
+import { OpenAIMessage, OpenAIContentPart } from './OpenAIProvider';
+import { ProviderCapabilities } from './LLMProvider';
+
+export interface MessageImage {
+    mediaType: string; // e.g. "image/png"
+    data: string; // Base64 without the data URL prefix
+}
+
+// Media types accepted by all providers that take images
+export const SUPPORTED_IMAGE_MEDIA_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const IMAGE_EXTENSION_MEDIA_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+};
+
+export function getImageMediaType(extension: string): string | undefined {
+    return IMAGE_EXTENSION_MEDIA_TYPES[extension.toLowerCase()];
+}
+
+// The text of a message; the text parts of multimodal content are joined
+export function getMessageText(content: OpenAIMessage['content']): string {
+    if (!content) return '';
+    if (typeof content === 'string') return content;
+    return content
+        .filter((part): part is Extract<OpenAIContentPart, { type: 'text' }> => part.type === 'text')
+        .map(part => part.text)
+        .join('\n\n');
+}
+
+export function getMessageImageUrls(content: OpenAIMessage['content']): string[] {
+    if (!content || typeof content === 'string') return [];
+    return content
+        .filter((part): part is Extract<OpenAIContentPart, { type: 'image_url' }> => part.type === 'image_url')
+        .map(part => part.image_url.url);
+}
+
+// Images of a message in the form most APIs take them; URLs that are not base64 data URLs are skipped
+export function getMessageImages(content: OpenAIMessage['content']): MessageImage[] {
+    const images: MessageImage[] = [];
+    for (const url of getMessageImageUrls(content)) {
+        const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+        if (match) {
+            images.push({ mediaType: match[1], data: match[2] });
+        } else {
+            console.warn('Obsigent: Skipping an image that is not a base64 data URL.');
+        }
+    }
+    return images;
+}
+
+export function buildMessageContent(text: string, imageDataUrls: string[]): OpenAIMessage['content'] {
+    if (imageDataUrls.length === 0) return text;
+    const parts: OpenAIContentPart[] = [];
+    if (text) parts.push({ type: 'text', text });
+    for (const url of imageDataUrls) {
+        parts.push({ type: 'image_url', image_url: { url } });
+    }
+    return parts;
+}
+
+function getLatestUserMessageIndex(messages: OpenAIMessage[]): number {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].role === 'user') return i;
+    }
+    return -1;
+}
+
+// Providers call this before sending, so a model without image input fails with a clear message instead of an API
+// error. Only images in the latest user message count; earlier ones are replaced by replaceUnsupportedImages.
+export function getUnsupportedImageError(messages: OpenAIMessage[], capabilities: ProviderCapabilities, model: string): string | null {
+    const latestUserMessage = messages[getLatestUserMessageIndex(messages)];
+    if (capabilities.vision || !latestUserMessage || getMessageImageUrls(latestUserMessage.content).length === 0) return null;
+    return `The model "${model}" does not accept images. Choose a model with vision support, or enable "Image Input" for this model in the settings if it supports images.`;
+}
+
+// Images of earlier turns, e.g. sent to a vision model before switching models or falling back to another profile,
+// become a short note for models without image input, so the conversation can go on. Returns a copy if anything changed.
+export function replaceUnsupportedImages(messages: OpenAIMessage[], capabilities: ProviderCapabilities): OpenAIMessage[] {
+    if (capabilities.vision) return messages;
+    return messages.map(msg => {
+        const imageCount = getMessageImageUrls(msg.content).length;
+        if (imageCount === 0) return msg;
+        const note = `[${imageCount === 1 ? 'An image was' : `${imageCount} images were`} attached here, but this model cannot see images.]`;
+        const text = getMessageText(msg.content);
+        return { ...msg, content: text ? `${text}\n\n${note}` : note };
+    });
+}
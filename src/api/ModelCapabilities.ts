@@ -0,0 +1,75 @@
+// src/api/ModelCapabilities.ts
+// Best-effort capability detection from provider type and model name.
+// Users can override the detected values per provider in settings (ProviderSettings.capabilityOverrides).
+
+import { LLMProviderType, ProviderCapabilities } from './LLMProvider';
+
+interface ModelCapabilityRule {
+    pattern: RegExp;
+    capabilities: Partial<ProviderCapabilities>;
+}
+
+const PROVIDER_DEFAULTS: Record<LLMProviderType, ProviderCapabilities> = {
+    // Also used for local OpenAI-compatible servers, where we cannot know what the model supports
+    openai: { tools: true, vision: false, streaming: true, jsonMode: true, reasoning: false, contextWindow: 16385 },
+    anthropic: { tools: true, vision: true, streaming: true, jsonMode: false, reasoning: false, contextWindow: 200000 },
+    google: { tools: true, vision: true, streaming: true, jsonMode: true, reasoning: false, contextWindow: 1048576 },
+    cohere: { tools: true, vision: false, streaming: true, jsonMode: true, reasoning: false, contextWindow: 128000 },
+    ollama: { tools: false, vision: false, streaming: true, jsonMode: true, reasoning: false, contextWindow: 8192 },
+    // Whatever was recorded is played back, so nothing is held back from the request
+    replay: { tools: true, vision: true, streaming: true, jsonMode: true, reasoning: true, contextWindow: 128000 },
+};
+
+// Rules are checked in order and all matching rules are applied, so more specific rules come last
+const MODEL_RULES: Record<LLMProviderType, ModelCapabilityRule[]> = {
+    openai: [
+        { pattern: /^gpt-4(-\d|$)/, capabilities: { contextWindow: 8192 } },
+        { pattern: /^gpt-4-turbo|^gpt-4-\d{4}-preview/, capabilities: { vision: true, contextWindow: 128000 } },
+        { pattern: /^gpt-4o|^chatgpt-4o/, capabilities: { vision: true, contextWindow: 128000 } },
+        { pattern: /^gpt-4\.1/, capabilities: { vision: true, contextWindow: 1047576 } },
+        { pattern: /^gpt-5/, capabilities: { vision: true, reasoning: true, contextWindow: 400000 } },
+        { pattern: /^o[134](-|$)/, capabilities: { vision: true, reasoning: true, contextWindow: 200000 } },
+        { pattern: /^o1-mini/, capabilities: { vision: false, tools: false, contextWindow: 128000 } },
+    ],
+    anthropic: [
+        { pattern: /^claude-(instant|2)/, capabilities: { tools: false, vision: false, contextWindow: 100000 } },
+        { pattern: /^claude-3-7-sonnet|^claude-(sonnet|opus|haiku)-4/, capabilities: { reasoning: true } },
+    ],
+    google: [
+        { pattern: /^(models\/)?gemini-pro$|^(models\/)?gemini-1\.0/, capabilities: { vision: false, contextWindow: 32760 } },
+        { pattern: /^(models\/)?gemini-1\.5-pro/, capabilities: { contextWindow: 2097152 } },
+        { pattern: /^(models\/)?gemini-2\.5/, capabilities: { reasoning: true } },
+    ],
+    cohere: [
+        { pattern: /^command(-light)?(-nightly)?$/, capabilities: { tools: false, jsonMode: false, contextWindow: 4096 } },
+        { pattern: /^command-a/, capabilities: { contextWindow: 256000 } },
+        { pattern: /^command-a-vision/, capabilities: { vision: true, tools: false } },
+        { pattern: /^command-a-reasoning/, capabilities: { reasoning: true } },
+    ],
+    ollama: [
+        { pattern: /^(llama3\.[123]|llama4|qwen2\.5|qwen3|mistral|mistral-nemo|mistral-small|mixtral|command-r|firefunction|hermes3|granite3|smollm2|gpt-oss)/, capabilities: { tools: true } },
+        { pattern: /^(llama3\.1|llama3\.2|llama3\.3|qwen2\.5|qwen3|mistral-nemo|gpt-oss)/, capabilities: { contextWindow: 131072 } },
+        { pattern: /^(llava|bakllava|llama3\.2-vision|llama4|gemma3|qwen2\.5vl|minicpm-v|moondream)/, capabilities: { vision: true } },
+        { pattern: /^(deepseek-r1|qwen3|qwq|gpt-oss|magistral)/, capabilities: { reasoning: true } },
+    ],
+    replay: [],
+};
+
+export function detectModelCapabilities(providerType: LLMProviderType, model: string | undefined, overrides?: Partial<ProviderCapabilities>): ProviderCapabilities {
+    const capabilities: ProviderCapabilities = { ...PROVIDER_DEFAULTS[providerType] };
+    const normalizedModel = (model || '').trim().toLowerCase();
+
+    if (normalizedModel) {
+        for (const rule of MODEL_RULES[providerType]) {
+            if (rule.pattern.test(normalizedModel)) {
+                Object.assign(capabilities, rule.capabilities);
+            }
+        }
+    }
+
+    if (overrides) {
+        // Unset overrides keep the detected value
+        Object.assign(capabilities, Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined)));
+    }
+    return capabilities;
+}
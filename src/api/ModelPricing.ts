@@ -0,0 +1,74 @@
+// src/api/ModelPricing.ts
+// Per-model token prices used to compute the cost of each request from its reported usage.
+// The table is stored in the settings and can be edited there, as providers change prices over time.
+
+import { LLMProviderType, TokenUsage } from './LLMProvider';
+
+// Prices in USD per million tokens
+export interface ModelPrice {
+    provider: LLMProviderType;
+    model: string; // Model ID or ID prefix, e.g. "gpt-4o" also prices "gpt-4o-2024-08-06"
+    inputPerMillion: number;
+    outputPerMillion: number;
+    cacheReadPerMillion?: number; // Defaults to the input price
+    cacheWritePerMillion?: number; // Defaults to the input price
+}
+
+// List prices at the time of writing; Ollama runs locally and is free
+export const DEFAULT_MODEL_PRICING: ModelPrice[] = [
+    { provider: 'openai', model: 'gpt-3.5-turbo', inputPerMillion: 0.5, outputPerMillion: 1.5 },
+    { provider: 'openai', model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10, cacheReadPerMillion: 1.25 },
+    { provider: 'openai', model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6, cacheReadPerMillion: 0.075 },
+    { provider: 'openai', model: 'gpt-4.1', inputPerMillion: 2, outputPerMillion: 8, cacheReadPerMillion: 0.5 },
+    { provider: 'openai', model: 'gpt-4.1-mini', inputPerMillion: 0.4, outputPerMillion: 1.6, cacheReadPerMillion: 0.1 },
+    { provider: 'openai', model: 'gpt-4.1-nano', inputPerMillion: 0.1, outputPerMillion: 0.4, cacheReadPerMillion: 0.025 },
+    { provider: 'openai', model: 'gpt-5', inputPerMillion: 1.25, outputPerMillion: 10, cacheReadPerMillion: 0.125 },
+    { provider: 'openai', model: 'gpt-5-mini', inputPerMillion: 0.25, outputPerMillion: 2, cacheReadPerMillion: 0.025 },
+    { provider: 'openai', model: 'o3', inputPerMillion: 2, outputPerMillion: 8, cacheReadPerMillion: 0.5 },
+    { provider: 'openai', model: 'o4-mini', inputPerMillion: 1.1, outputPerMillion: 4.4, cacheReadPerMillion: 0.275 },
+    { provider: 'anthropic', model: 'claude-3-haiku', inputPerMillion: 0.25, outputPerMillion: 1.25, cacheReadPerMillion: 0.03, cacheWritePerMillion: 0.3 },
+    { provider: 'anthropic', model: 'claude-3-5-haiku', inputPerMillion: 0.8, outputPerMillion: 4, cacheReadPerMillion: 0.08, cacheWritePerMillion: 1 },
+    { provider: 'anthropic', model: 'claude-3-5-sonnet', inputPerMillion: 3, outputPerMillion: 15, cacheReadPerMillion: 0.3, cacheWritePerMillion: 3.75 },
+    { provider: 'anthropic', model: 'claude-3-7-sonnet', inputPerMillion: 3, outputPerMillion: 15, cacheReadPerMillion: 0.3, cacheWritePerMillion: 3.75 },
+    { provider: 'anthropic', model: 'claude-sonnet-4', inputPerMillion: 3, outputPerMillion: 15, cacheReadPerMillion: 0.3, cacheWritePerMillion: 3.75 },
+    { provider: 'anthropic', model: 'claude-3-opus', inputPerMillion: 15, outputPerMillion: 75, cacheReadPerMillion: 1.5, cacheWritePerMillion: 18.75 },
+    { provider: 'anthropic', model: 'claude-opus-4', inputPerMillion: 15, outputPerMillion: 75, cacheReadPerMillion: 1.5, cacheWritePerMillion: 18.75 },
+    { provider: 'google', model: 'gemini-1.5-flash', inputPerMillion: 0.075, outputPerMillion: 0.3 },
+    { provider: 'google', model: 'gemini-1.5-pro', inputPerMillion: 1.25, outputPerMillion: 5 },
+    { provider: 'google', model: 'gemini-2.0-flash', inputPerMillion: 0.1, outputPerMillion: 0.4, cacheReadPerMillion: 0.025 },
+    { provider: 'google', model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5, cacheReadPerMillion: 0.075 },
+    { provider: 'google', model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10, cacheReadPerMillion: 0.31 },
+    { provider: 'cohere', model: 'command', inputPerMillion: 1, outputPerMillion: 2 },
+    { provider: 'cohere', model: 'command-r', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    { provider: 'cohere', model: 'command-r-plus', inputPerMillion: 2.5, outputPerMillion: 10 },
+    { provider: 'cohere', model: 'command-r7b', inputPerMillion: 0.0375, outputPerMillion: 0.15 },
+    { provider: 'cohere', model: 'command-a', inputPerMillion: 2.5, outputPerMillion: 10 },
+];
+
+// The longest matching entry wins, so "gpt-4o-mini" is not priced as "gpt-4o"
+export function findModelPrice(pricing: ModelPrice[], provider: LLMProviderType, model: string | undefined): ModelPrice | undefined {
+    const normalizedModel = (model || '').trim().toLowerCase().replace(/^models\//, ''); // Gemini model names may carry a "models/" prefix
+    if (!normalizedModel) return undefined;
+
+    let bestMatch: ModelPrice | undefined = undefined;
+    for (const price of pricing) {
+        const priceModel = price.model.trim().toLowerCase();
+        if (price.provider !== provider || !priceModel || !normalizedModel.startsWith(priceModel)) continue;
+        if (!bestMatch || priceModel.length > bestMatch.model.trim().length) {
+            bestMatch = price;
+        }
+    }
+    return bestMatch;
+}
+
+// Cost in USD
+export function calculateCost(usage: TokenUsage, price: ModelPrice): number {
+    const cacheReadPrice = price.cacheReadPerMillion ?? price.inputPerMillion;
+    const cacheWritePrice = price.cacheWritePerMillion ?? price.inputPerMillion;
+    return (
+        usage.inputTokens * price.inputPerMillion
+        + usage.outputTokens * price.outputPerMillion
+        + usage.cacheReadTokens * cacheReadPrice
+        + usage.cacheWriteTokens * cacheWritePrice
+    ) / 1_000_000;
+}
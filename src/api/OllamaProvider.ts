@@ -1,17 +1,64 @@
 // src/api/OllamaProvider.ts
-import { Notice } from 'obsidian';
+import { Notice, requestUrl } from 'obsidian';
 import { ObsigentPluginSettings } from '../main';
-import { McpTool } from '../types/mcp';
-import { LLMProvider, StreamCallbacks, ProviderSettings, LLMProviderType } from './LLMProvider'; 
+import { McpTool, McpToolSchema } from '../types/mcp';
+import { JsonSchema } from '../types/jsonSchema';
+import { LLMProvider, getProfileSettings, httpErrorDetails, readErrorBody, StreamCallbacks, ProviderCapabilities, ValidationReport, LLMProviderType, ToolCall } from './LLMProvider';
+import { fetchWithRetry } from './RequestRetry';
+import { getSamplingParameters } from './SamplingParameters';
+import { StructuredOutputFormat } from './StructuredOutput';
 import { OpenAIMessage } from './OpenAIProvider'; // Import OpenAIMessage directly
+import { readNdjsonLines } from './StreamDecoder';
+import { SplitText, ThinkTagSplitter } from './ThinkTagSplitter';
+import { detectModelCapabilities } from './ModelCapabilities';
+import { validateProviderConnection } from './ProviderValidation';
+import { getMessageImages, getMessageText, getUnsupportedImageError, replaceUnsupportedImages } from './MessageContent';
 
 // Ollama specific request/response structures (simplified for chat)
+interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>; // Ollama sends and expects parsed arguments, not a JSON string
+  };
+}
+
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  images?: string[]; // Base64 images without the data URL prefix
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string; // For role: 'tool', the name of the tool that produced the result
+}
+
+interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: McpToolSchema;
+  };
+}
+
+// Model parameters, see the Modelfile documentation
+interface OllamaOptions {
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  num_predict?: number; // Maximum tokens to generate
+  stop?: string[];
+  seed?: number;
+  num_ctx?: number; // Context window size
+}
+
 interface OllamaChatRequest {
   model: string;
-  messages: OpenAIMessage[]; // Assuming Ollama can take OpenAI-like message structure
+  messages: OllamaMessage[];
   stream?: boolean;
-  options?: Record<string, any>; // For temperature, etc.
-  // format?: "json"; // For JSON mode if needed later
+  tools?: OllamaTool[];
+  think?: boolean; // Stream reasoning in message.thinking instead of inline <think> tags
+  format?: JsonSchema; // Constrains the response to JSON matching the schema
+  options?: OllamaOptions;
+  keep_alive?: string | number; // Duration such as "5m", or seconds as a number; Ollama rejects strings without a unit
 }
 
 interface OllamaChatStreamResponse {
@@ -20,6 +67,8 @@ interface OllamaChatStreamResponse {
   message?: { // Content is within 'message'
     role: 'assistant';
     content: string;
+    thinking?: string; // With think: true
+    tool_calls?: OllamaToolCall[];
   };
   done: boolean; // True if this is the final response
   total_duration?: number;
@@ -33,128 +82,247 @@ interface OllamaChatStreamResponse {
 
 export class OllamaProvider implements LLMProvider {
     providerName: LLMProviderType = "ollama";
+    readonly profileId: string;
+
+    constructor(profileId: string) {
+        this.profileId = profileId;
+    }
+
+    public getCapabilities(settings: ObsigentPluginSettings): ProviderCapabilities {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        const capabilities = detectModelCapabilities(this.providerName, providerSettings.defaultModel, providerSettings.capabilityOverrides);
+        // Ollama loads the model with num_ctx when it is set, whatever the model could handle
+        const numCtx = getSamplingParameters(this.providerName, providerSettings.sampling).numCtx;
+        if (numCtx) capabilities.contextWindow = numCtx;
+        return capabilities;
+    }
+
+    public async validateSettings(settings: ObsigentPluginSettings): Promise<ValidationReport> {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        // generateResponse has no default endpoint for Ollama, so an empty endpoint fails the configuration step
+        return validateProviderConnection(this, settings, { endpoint: providerSettings.apiEndpoint || '', apiKeyRequired: false });
+    }
+
+    // Lists the locally installed models; /api/tags lives next to the configured /api/chat endpoint
+    public async listModels(settings: ObsigentPluginSettings): Promise<string[]> {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        const apiEndpoint = providerSettings.apiEndpoint || 'http://localhost:11434/api/chat';
+        const tagsUrl = `${apiEndpoint.replace(/\/+$/, '').replace(/\/api\/(chat|generate)$/, '')}/api/tags`;
+
+        const response = await requestUrl({ url: tagsUrl, throw: false });
+        if (response.status >= 400) {
+            let errorDetails = response.text || 'No additional details';
+            try {
+                errorDetails = response.json?.error || errorDetails;
+            } catch (e) {
+                // Not a JSON error body, keep the raw text
+            }
+            throw new Error(`HTTP Error ${response.status} from ${tagsUrl}: ${errorDetails}`);
+        }
+        const models: { name?: string; model?: string }[] = response.json?.models || [];
+        return models.map(model => model.name || model.model).filter((name): name is string => !!name).sort();
+    }
+
+    // Ollama does not return tool call IDs, so we generate our own to pair results with calls in chatHistory.
+    // Tool results are sent back with the tool name instead of the ID.
+    private convertToOllamaMessages(messages: OpenAIMessage[]): OllamaMessage[] {
+        const toolNamesById: Map<string, string> = new Map();
+        return messages.map(msg => {
+            const ollamaMessage: OllamaMessage = { role: msg.role, content: getMessageText(msg.content) };
+            const images = getMessageImages(msg.content);
+            if (images.length > 0) {
+                ollamaMessage.images = images.map(image => image.data);
+            }
+            if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
+                ollamaMessage.tool_calls = msg.tool_calls.map(toolCall => {
+                    toolNamesById.set(toolCall.id, toolCall.function.name);
+                    return { function: { name: toolCall.function.name, arguments: this.parseToolArguments(toolCall.function.arguments) } };
+                });
+            }
+            if (msg.role === 'tool' && msg.tool_call_id && toolNamesById.has(msg.tool_call_id)) {
+                ollamaMessage.tool_name = toolNamesById.get(msg.tool_call_id);
+            }
+            return ollamaMessage;
+        });
+    }
+
+    private parseToolArguments(argumentsJson: string): Record<string, unknown> {
+        if (!argumentsJson) return {};
+        try {
+            const parsed = JSON.parse(argumentsJson);
+            return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+        } catch (e) {
+            console.warn("OllamaProvider: Could not parse tool call arguments, sending empty arguments.", argumentsJson);
+            return {};
+        }
+    }
+
+    private convertToOllamaTools(tools: McpTool[]): OllamaTool[] {
+        return tools.map(tool => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.inputSchema || { type: 'object', properties: {} },
+            }
+        }));
+    }
+
+    private toToolCalls(ollamaToolCalls: OllamaToolCall[], startIndex: number): ToolCall[] {
+        return ollamaToolCalls.map((toolCall, i) => ({
+            id: `ollama_call_${Date.now()}_${startIndex + i}`,
+            type: 'function',
+            function: {
+                name: toolCall.function.name,
+                arguments: JSON.stringify(toolCall.function.arguments || {}),
+            }
+        }));
+    }
 
     async generateResponse(
         messages: OpenAIMessage[],
         settings: ObsigentPluginSettings,
         callbacks: StreamCallbacks,
-        availableTools?: McpTool[], // Tools might be ignored for Ollama v1
-        abortController?: AbortController
+        availableTools?: McpTool[],
+        abortController?: AbortController,
+        responseFormat?: StructuredOutputFormat
     ): Promise<void> {
-        const providerSettings = settings.providerSettings?.[this.providerName] as ProviderSettings | undefined;
+        const providerSettings = getProfileSettings(settings, this.profileId);
         
-        if (!providerSettings || !providerSettings.apiEndpoint || !providerSettings.defaultModel) {
-            callbacks.onError('Ollama API endpoint or default model is not set.');
+        if (!providerSettings.apiEndpoint || !providerSettings.defaultModel) {
+            callbacks.onError('Ollama API endpoint or default model is not set.', { kind: 'configuration' });
             return;
         }
         const { apiEndpoint, defaultModel } = providerSettings;
-
-        // Note: Ollama's /api/chat expects a slightly different message format if not using OpenAI compatibility.
-        // For simplicity, we're assuming the OpenAIMessage structure is broadly compatible or
-        // that the Ollama instance is set up for OpenAI compatibility if needed.
-        // Tools are not directly supported in the same way as OpenAI's function calling by default in Ollama's core API.
-        // Some Ollama models might interpret structured prompts for tool-like behavior, or one might use JSON mode.
-        // For now, we ignore `availableTools` for basic Ollama chat.
+        const imageError = getUnsupportedImageError(messages, this.getCapabilities(settings), defaultModel);
+        if (imageError) {
+            callbacks.onError(imageError, { kind: 'configuration' });
+            return;
+        }
+        messages = replaceUnsupportedImages(messages, this.getCapabilities(settings));
 
         const requestBody: OllamaChatRequest = {
             model: defaultModel,
-            messages: messages,
+            messages: this.convertToOllamaMessages(messages),
             stream: true,
-            // options: { temperature: 0.7 } // Example: add options if needed
+        };
+
+        const sampling = getSamplingParameters(this.providerName, providerSettings.sampling);
+        const options: OllamaOptions = {
+            temperature: sampling.temperature,
+            top_p: sampling.topP,
+            top_k: sampling.topK,
+            num_predict: sampling.maxTokens,
+            stop: sampling.stopSequences,
+            seed: sampling.seed,
+            num_ctx: sampling.numCtx,
+        };
+        // Without options Ollama uses the values of the model's Modelfile
+        if (Object.values(options).some(value => value !== undefined)) {
+            requestBody.options = options;
+        }
+        if (sampling.keepAlive !== undefined) {
+            // Ollama reads a number as seconds and a string as a duration, which needs a unit. Bare numbers saved
+            // as text by earlier versions are sent as numbers too.
+            const keepAlive = sampling.keepAlive;
+            requestBody.keep_alive = typeof keepAlive === 'string' && /^-?\d+(\.\d+)?$/.test(keepAlive.trim()) ? Number(keepAlive) : keepAlive;
+        }
+
+        // Models that cannot think reject "think", so it is only sent to models detected (or marked) as reasoning models
+        if (this.getCapabilities(settings).reasoning) {
+            requestBody.think = true;
+        }
+
+        if (responseFormat && this.getCapabilities(settings).jsonMode) {
+            requestBody.format = responseFormat.schema;
+        }
+
+        // Ollama has no tool_choice parameter; "none" is honoured by not sending tools at all.
+        if (availableTools && availableTools.length > 0 && providerSettings.toolChoice !== 'none') {
+            requestBody.tools = this.convertToOllamaTools(availableTools);
+        }
+
+        const collectedToolCalls: ToolCall[] = [];
+        // Reasoning arrives in message.thinking when "think" is on, otherwise inline between <think> tags
+        const thinkTagSplitter = new ThinkTagSplitter();
+        const emitContent = (splitText: SplitText) => {
+            if (splitText.reasoning && callbacks.onReasoning) callbacks.onReasoning(splitText.reasoning);
+            if (splitText.content) callbacks.onUpdate(splitText.content, false);
+        };
+        // Handles the final chunk of a response, handing over tool calls if the model requested any
+        const finishResponse = async () => {
+            emitContent(thinkTagSplitter.flush());
+            if (callbacks.onToolCall && collectedToolCalls.length > 0) {
+                await callbacks.onToolCall(collectedToolCalls);
+            } else {
+                callbacks.onUpdate("", true); // Changed to onUpdate
+            }
+            callbacks.onFinish("stop");
         };
 
         try {
-            const response = await fetch(apiEndpoint, {
+            const response = await fetchWithRetry(apiEndpoint, {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
                 },
                 body: JSON.stringify(requestBody),
                 signal: abortController?.signal, // Add abort signal support
-            });
+            }, { maxAttempts: settings.maxRequestAttempts, onRetry: callbacks.onRetry });
+            callbacks.onResponse?.({ url: apiEndpoint, status: response.status });
 
             if (!response.ok) {
-                let errorDetails = `HTTP Error ${response.status}`;
-                try {
-                    const errorJson = await response.json();
-                    errorDetails = `Ollama API Error: ${errorJson.error || await response.text()}`;
-                } catch (e) {
-                    errorDetails = `HTTP Error ${response.status}: ${await response.text() || 'Failed to parse error response.'}`;
-                }
+                const errorBody = await readErrorBody(response);
+                const errorJson = errorBody.json as { error?: string } | undefined;
+                const errorDetails = errorJson?.error ? `Ollama API Error: ${errorJson.error}` : `HTTP Error ${response.status}: ${errorBody.text}`;
                 console.error('Ollama API Error:', errorDetails);
-                callbacks.onError(errorDetails);
+                callbacks.onError(errorDetails, httpErrorDetails(response));
                 return;
             }
 
             if (!response.body) {
-                callbacks.onError('Response body is null from Ollama.');
+                callbacks.onError('Response body is null from Ollama.', { kind: 'stream' });
                 return;
             }
 
-            const reader = response.body.getReader();
-            const decoder = new TextDecoder();
-            
             // Ollama streams NDJSON (newline-delimited JSON)
-            let buffer = '';
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) {
-                    // If buffer has remaining content (should not happen if NDJSON is well-formed and stream ends cleanly)
-                    if (buffer.trim()) {
-                        try {
-                            const parsed = JSON.parse(buffer) as OllamaChatStreamResponse;
-                            if (parsed.message && parsed.message.content) {
-                                // callbacks.onContent(parsed.message.content, parsed.done);
-                                callbacks.onUpdate(parsed.message.content, parsed.done); // Changed to onUpdate
-                            }
-                            if (parsed.done) {
-                                // If done and no content was in this chunk, ensure onUpdate is called with final true
-                                if (!(parsed.message && parsed.message.content)) {
-                                    // callbacks.onContent("", true);
-                                    callbacks.onUpdate("", true); // Changed to onUpdate
-                                }
-                                callbacks.onFinish(parsed.done ? "stop" : undefined);
-                                break;
-                            }
-                        } catch (e: any) {
-                            console.error('Error parsing final Ollama stream chunk:', e, 'Chunk:', buffer);
-                        }
-                    }
-                    callbacks.onFinish("stop"); // Ensure onFinish is called if loop terminates cleanly
-                    break;
+            for await (const line of readNdjsonLines(response.body)) {
+                let parsed: OllamaChatStreamResponse;
+                try {
+                    parsed = JSON.parse(line) as OllamaChatStreamResponse;
+                } catch (e: any) {
+                    console.error('Error parsing Ollama stream line:', e, 'Line:', line);
+                    // Potentially skip malformed line or error out
+                    continue;
+                }
+                if (parsed.error) { // Handle error within a stream chunk
+                    callbacks.onError(`Ollama stream error: ${parsed.error}`, { kind: 'stream' });
+                    return; // Stop processing on stream error
+                }
+                if (parsed.message?.thinking && callbacks.onReasoning) {
+                    callbacks.onReasoning(parsed.message.thinking);
+                }
+                if (parsed.message?.content) {
+                    emitContent(thinkTagSplitter.push(parsed.message.content));
+                }
+                if (parsed.message?.tool_calls) {
+                    collectedToolCalls.push(...this.toToolCalls(parsed.message.tool_calls, collectedToolCalls.length));
                 }
-                
-                buffer += decoder.decode(value, { stream: true });
-                let newlineIndex;
-                while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
-                    const line = buffer.substring(0, newlineIndex);
-                    buffer = buffer.substring(newlineIndex + 1);
-
-                    if (line.trim() === '') continue;
-
-                    try {
-                        const parsed = JSON.parse(line) as OllamaChatStreamResponse;
-                        if (parsed.error) { // Handle error within a stream chunk
-                            callbacks.onError(`Ollama stream error: ${parsed.error}`);
-                            callbacks.onFinish("error");
-                            return; // Stop processing on stream error
-                        }
-                        if (parsed.message?.content) {
-                            // callbacks.onContent(parsed.message.content, false); // isFinal is false until 'done' is true
-                            callbacks.onUpdate(parsed.message.content, false); // Changed to onUpdate
-                        }
-                        if (parsed.done) {
-                            // callbacks.onContent("", true); // Send final empty content if not already sent
-                            callbacks.onUpdate("", true); // Changed to onUpdate
-                            callbacks.onFinish("stop");
-                            return; // Stream finished
-                        }
-                    } catch (e: any) {
-                        console.error('Error parsing Ollama stream line:', e, 'Line:', line);
-                        // Potentially skip malformed line or error out
+                if (parsed.done) {
+                    // The final chunk carries the prompt and response token counts; Ollama has no prompt cache
+                    if (callbacks.onUsage && (parsed.prompt_eval_count !== undefined || parsed.eval_count !== undefined)) {
+                        callbacks.onUsage({
+                            inputTokens: parsed.prompt_eval_count || 0,
+                            outputTokens: parsed.eval_count || 0,
+                            cacheReadTokens: 0,
+                            cacheWriteTokens: 0,
+                        });
                     }
+                    await finishResponse();
+                    return; // Stream finished
                 }
             }
+            await finishResponse(); // Ensure onFinish is called if the stream ends without a final chunk
         } catch (error: any) {
             // Handle abort errors gracefully
             if (error.name === 'AbortError') {
@@ -163,8 +331,7 @@ export class OllamaProvider implements LLMProvider {
             }
             const errorMsg = `Failed to connect to Ollama API: ${error.message || 'Unknown error'}`;
             console.error('Ollama API Request Failed:', error);
-            callbacks.onError(errorMsg);
-            callbacks.onFinish("error");
+            callbacks.onError(errorMsg, { kind: 'network' });
         }
     }
 }
@@ -1,15 +1,37 @@
 // src/api/OpenAIProvider.ts
-import { Notice } from 'obsidian';
+import { Notice, requestUrl } from 'obsidian';
 import { ObsigentPluginSettings } from '../main';
 import { McpTool } from '../types/mcp';
-import { LLMProvider, StreamCallbacks, ProviderSettings, ToolCall } from './LLMProvider'; // Import new interfaces
+import { JsonSchema } from '../types/jsonSchema';
+import { LLMProvider, getProfileSettings, httpErrorDetails, readErrorBody, StreamCallbacks, ProviderSettings, ProviderCapabilities, ValidationReport, ToolCall, TokenUsage } from './LLMProvider'; // Import new interfaces
+import { fetchWithRetry } from './RequestRetry';
+import { getSamplingParameters } from './SamplingParameters';
+import { StructuredOutputFormat } from './StructuredOutput';
+import { ToolNameMapper } from './ToolNameMapper';
+import { readSseEvents } from './StreamDecoder';
+import { SplitText, ThinkTagSplitter } from './ThinkTagSplitter';
+import { detectModelCapabilities } from './ModelCapabilities';
+import { validateProviderConnection } from './ProviderValidation';
+import { resolveSecretReferences } from './SecretReferences';
+import { getUnsupportedImageError, replaceUnsupportedImages } from './MessageContent';
+
+// Generally available Azure OpenAI data plane version, used when the profile does not set one
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+const DEFAULT_API_ENDPOINT = 'https://api.openai.com/v1/chat/completions';
 
 // OpenAI specific message and tool structures (can remain here)
+// Multimodal user messages carry text and image parts; images are base64 data URLs
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
 export interface OpenAIMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string | null;
+  content: string | OpenAIContentPart[] | null;
   tool_calls?: OpenAIToolCall[];
   tool_call_id?: string;
+  isError?: boolean; // For role: 'tool', the tool failed or was not run. Not sent as is; providers map it to their own field.
 }
 
 export interface OpenAIFunction {
@@ -32,14 +54,21 @@ export interface OpenAIToolCall {
     };
 }
 
+export type OpenAIToolChoice = "none" | "auto" | "required" | { type: "function", function: { name: string } };
+
 interface OpenAIRequest {
   model: string;
   messages: OpenAIMessage[];
   temperature?: number;
+  top_p?: number;
   max_tokens?: number;
+  stop?: string[];
+  seed?: number;
   tools?: OpenAITool[];
-  tool_choice?: "none" | "auto" | { type: "function", function: { name: string } };
+  tool_choice?: OpenAIToolChoice;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  response_format?: { type: 'json_schema'; json_schema: { name: string; description?: string; schema: JsonSchema; strict?: boolean } };
 }
 
 interface OpenAIResponseChoice {
@@ -48,6 +77,25 @@ interface OpenAIResponseChoice {
   finish_reason: string;
 }
 
+// One chunk of a streamed chat completion; OpenAI-compatible servers fill different parts of it
+interface OpenAIStreamChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      reasoning_content?: string; // DeepSeek, vLLM, LM Studio
+      reasoning?: string; // OpenRouter
+      tool_calls?: { index: number; id?: string; type?: string; function?: { name?: string; arguments?: string } }[];
+    };
+    finish_reason?: string | null;
+  }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+  error?: { type?: string; message?: string };
+}
+
 interface OpenAIErrorResponse { // Renamed to avoid conflict if OpenAIResponse is used for success
   error: {
     message: string;
@@ -58,172 +106,360 @@ interface OpenAIErrorResponse { // Renamed to avoid conflict if OpenAIResponse i
 }
 
 
+// Endpoint and model pairs that answered a json_schema response format with HTTP 400, for this session
+const RESPONSE_FORMAT_REJECTED: Set<string> = new Set();
+
 export class OpenAIProvider implements LLMProvider {
     readonly providerName = "openai";
+    readonly profileId: string;
+
+    constructor(profileId: string) {
+        this.profileId = profileId;
+    }
+
+    public getCapabilities(settings: ObsigentPluginSettings): ProviderCapabilities {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        return detectModelCapabilities(this.providerName, providerSettings.defaultModel, providerSettings.capabilityOverrides);
+    }
+
+    public async validateSettings(settings: ObsigentPluginSettings): Promise<ValidationReport> {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        const apiEndpoint = providerSettings.apiEndpoint || DEFAULT_API_ENDPOINT;
+        // Local OpenAI-compatible servers usually run without a key. Azure needs one unless a custom header
+        // authenticates instead, e.g. an Entra ID bearer token.
+        const authenticatedByHeader = (providerSettings.customHeaders || [])
+            .some(header => ['authorization', 'api-key'].includes(header.name.trim().toLowerCase()));
+        const apiKeyRequired = providerSettings.azure ? !authenticatedByHeader : apiEndpoint.startsWith('https://api.openai.com/');
+        return validateProviderConnection(this, settings, { endpoint: apiEndpoint, apiKeyRequired });
+    }
+
+    // Azure only lists base models, not the deployments that requests are addressed to
+    public canListModels(settings: ObsigentPluginSettings): boolean {
+        return !getProfileSettings(settings, this.profileId).azure;
+    }
+
+    // The models endpoint sits next to the configured chat completions endpoint, which also covers local
+    // OpenAI-compatible servers (e.g. http://localhost:1234/v1/chat/completions -> http://localhost:1234/v1/models)
+    public async listModels(settings: ObsigentPluginSettings): Promise<string[]> {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        if (providerSettings.azure) {
+            throw new Error('Azure OpenAI deployments cannot be listed. Enter the deployment name as the model.');
+        }
+        const apiEndpoint = providerSettings.apiEndpoint || DEFAULT_API_ENDPOINT;
+        const modelsUrl = this.buildRequestUrl(`${apiEndpoint.replace(/\/+$/, '').replace(/\/chat\/completions$/, '')}/models`, providerSettings);
+        const headers = this.buildRequestHeaders(providerSettings.apiKey, providerSettings);
+
+        const response = await requestUrl({ url: modelsUrl, headers, throw: false });
+        if (response.status >= 400) {
+            let errorDetails = response.text || 'No additional details';
+            try {
+                errorDetails = response.json?.error?.message || errorDetails;
+            } catch (e) {
+                // Not a JSON error body, keep the raw text
+            }
+            throw new Error(`HTTP Error ${response.status} from ${modelsUrl}: ${errorDetails}`);
+        }
+        const models: { id?: string }[] = response.json?.data || [];
+        return models.map(model => model.id).filter((id): id is string => !!id).sort();
+    }
+
+    // Azure addresses a deployment instead of sending the model: a resource URL such as
+    // https://my-resource.openai.azure.com becomes .../openai/deployments/<model>/chat/completions.
+    // A full deployment URL is used as it is.
+    private resolveChatEndpoint(apiEndpoint: string, model: string, providerSettings: ProviderSettings): string {
+        if (!providerSettings.azure || /\/deployments\//.test(apiEndpoint)) {
+            return apiEndpoint;
+        }
+        const resourceUrl = apiEndpoint.replace(/\/+$/, '').replace(/\/openai$/, '');
+        return `${resourceUrl}/openai/deployments/${encodeURIComponent(model)}/chat/completions`;
+    }
+
+    // Adds the api-version for Azure and the custom query parameters of the profile
+    private buildRequestUrl(url: string, providerSettings: ProviderSettings): string {
+        const parsedUrl = new URL(url);
+        if (providerSettings.azure && !parsedUrl.searchParams.has('api-version')) {
+            parsedUrl.searchParams.set('api-version', providerSettings.azureApiVersion?.trim() || DEFAULT_AZURE_API_VERSION);
+        }
+        for (const parameter of providerSettings.customQueryParameters || []) {
+            if (!parameter.name.trim()) continue;
+            parsedUrl.searchParams.set(parameter.name.trim(), resolveSecretReferences(parameter.value));
+        }
+        return parsedUrl.toString();
+    }
+
+    // Custom headers come last so they can replace the authentication header, e.g. for gateways.
+    // Throws if the API key or a header references a secret that is not available.
+    private buildRequestHeaders(apiKeySetting: string | undefined, providerSettings: ProviderSettings): Record<string, string> {
+        const headers: Record<string, string> = {};
+        const apiKey = apiKeySetting ? resolveSecretReferences(apiKeySetting) : '';
+        if (apiKey && apiKey.trim() !== "") { // Only add the key header if apiKey is present and not empty
+            if (providerSettings.azure) {
+                headers['api-key'] = apiKey;
+            } else {
+                headers['Authorization'] = `Bearer ${apiKey}`;
+            }
+        }
+        for (const header of providerSettings.customHeaders || []) {
+            const name = header.name.trim();
+            if (!name) continue;
+            // Header names are case-insensitive, so a custom "authorization" replaces our "Authorization"
+            for (const existingName of Object.keys(headers)) {
+                if (existingName.toLowerCase() === name.toLowerCase()) delete headers[existingName];
+            }
+            headers[name] = resolveSecretReferences(header.value);
+        }
+        return headers;
+    }
+
+    // Maps our MCP tool definitions to OpenAI's function tool format
+    private convertToOpenAITools(tools: McpTool[], toolNameMapper: ToolNameMapper): OpenAITool[] {
+        return tools.map(tool => ({
+            type: "function",
+            function: {
+                name: toolNameMapper.toApiName(tool.name),
+                description: tool.description,
+                parameters: tool.inputSchema || { type: "object", properties: {} },
+            }
+        }));
+    }
+
+    // Tool calls in the history carry our tool names and must use the same API-safe names as the tool definitions
+    private convertToOpenAIMessages(messages: OpenAIMessage[], toolNameMapper: ToolNameMapper): OpenAIMessage[] {
+        return messages.map(msg => {
+            // The API has no error flag for tool results and rejects unknown fields; the content states the error
+            if (msg.role === 'tool') return { role: msg.role, content: msg.content, tool_call_id: msg.tool_call_id };
+            return msg.tool_calls ? {
+                ...msg,
+                tool_calls: msg.tool_calls.map(toolCall => ({
+                    ...toolCall,
+                    function: { ...toolCall.function, name: toolNameMapper.toApiName(toolCall.function.name) },
+                })),
+            } : msg;
+        });
+    }
+
+    private resolveToolChoice(providerSettings: ProviderSettings, tools: McpTool[], toolNameMapper: ToolNameMapper): OpenAIToolChoice {
+        switch (providerSettings.toolChoice) {
+            case 'none':
+            case 'required':
+                return providerSettings.toolChoice;
+            case 'function': {
+                const functionName = providerSettings.toolChoiceFunction?.trim();
+                if (functionName && tools.some(tool => tool.name === functionName)) {
+                    return { type: "function", function: { name: toolNameMapper.toApiName(functionName) } };
+                }
+                console.warn(`OpenAIProvider: Tool "${functionName || ''}" selected as tool choice is not available. Falling back to "auto".`);
+                return "auto";
+            }
+            default:
+                return "auto";
+        }
+    }
 
     public async generateResponse(
         messages: OpenAIMessage[], // Using OpenAI specific message type for now
         settings: ObsigentPluginSettings,
         callbacks: StreamCallbacks,
         availableTools?: McpTool[],
-        abortController?: AbortController
+        abortController?: AbortController,
+        responseFormat?: StructuredOutputFormat
     ): Promise<void> {
-        const providerSettings = settings.providerSettings?.[this.providerName] as ProviderSettings || {};
+        const providerSettings = getProfileSettings(settings, this.profileId);
         const apiKey = providerSettings.apiKey || settings.apiKey; // Fallback to old global key for transition
         const apiEndpoint = providerSettings.apiEndpoint || settings.apiEndpoint; // Fallback
         const defaultModel = providerSettings.defaultModel || settings.defaultModel; // Fallback
 
         // API key is now optional; primary checks are for endpoint and model.
         if (!apiEndpoint) {
-            callbacks.onError('OpenAI API endpoint is not set. Please configure it in settings.');
+            callbacks.onError('OpenAI API endpoint is not set. Please configure it in settings.', { kind: 'configuration' });
             return;
         }
         if (!defaultModel) {
-            callbacks.onError('OpenAI Default model is not set. Please configure it in settings.');
+            callbacks.onError('OpenAI Default model is not set. Please configure it in settings.', { kind: 'configuration' });
+            return;
+        }
+        // Content parts are already in OpenAI's format and are sent as they are
+        const imageError = getUnsupportedImageError(messages, this.getCapabilities(settings), defaultModel);
+        if (imageError) {
+            callbacks.onError(imageError, { kind: 'configuration' });
             return;
         }
+        messages = replaceUnsupportedImages(messages, this.getCapabilities(settings));
+
+        const toolNameMapper = new ToolNameMapper();
+        const tools = availableTools && availableTools.length > 0 ? this.convertToOpenAITools(availableTools, toolNameMapper) : undefined;
 
         const requestBody: OpenAIRequest = {
             model: defaultModel,
-            messages: [...messages], // Ensure a shallow copy of the messages array is used
+            messages: this.convertToOpenAIMessages(messages, toolNameMapper), // Also a shallow copy of the messages array
             stream: true,
+            stream_options: { include_usage: true }, // Token usage is only sent in streams when requested
         };
 
-        // Add temperature and max_tokens if they are defined in providerSettings
-        if (providerSettings.temperature !== undefined) {
-            requestBody.temperature = providerSettings.temperature as number;
-        }
-        if (providerSettings.max_tokens !== undefined) {
-            requestBody.max_tokens = providerSettings.max_tokens as number;
+        // Sampling parameters are only sent when set, so the API defaults apply otherwise
+        const sampling = getSamplingParameters(this.providerName, providerSettings.sampling);
+        requestBody.temperature = sampling.temperature;
+        requestBody.top_p = sampling.topP;
+        requestBody.max_tokens = sampling.maxTokens;
+        requestBody.stop = sampling.stopSequences;
+        requestBody.seed = sampling.seed;
+
+        if (tools && availableTools) {
+            requestBody.tools = tools;
+            requestBody.tool_choice = this.resolveToolChoice(providerSettings, availableTools, toolNameMapper);
         }
 
-        // if (availableTools && availableTools.length > 0) {
-        //     requestBody.tools = availableTools.map(tool => ({
-        //         type: "function",
-        //         function: {
-        //             name: tool.name,
-        //             description: tool.description,
-        //             parameters: tool.input_schema,
-        //         }
-        //     }));
-        //     requestBody.tool_choice = "auto";
-        // }
-
-        const headers: HeadersInit = {
-            'Content-Type': 'application/json',
-        };
-        if (apiKey && apiKey.trim() !== "") { // Only add Authorization header if apiKey is present and not empty
-            headers['Authorization'] = `Bearer ${apiKey}`;
+        // Strict mode cannot describe objects with free-form keys, so the schema guides the model without strict decoding
+        const responseFormatKey = `${apiEndpoint} ${defaultModel}`;
+        if (responseFormat && this.getCapabilities(settings).jsonMode && !RESPONSE_FORMAT_REJECTED.has(responseFormatKey)) {
+            requestBody.response_format = {
+                type: 'json_schema',
+                json_schema: { name: responseFormat.name, description: responseFormat.description, schema: responseFormat.schema, strict: false },
+            };
         }
 
-        // Log the request details for debugging
-        console.log('Obsigent Plugin OpenAI Request Details:');
-        console.log('Endpoint:', apiEndpoint);
-        console.log('Headers:', JSON.stringify(headers, null, 2));
-        console.log('Body:', JSON.stringify(requestBody, null, 2));
+        let chatUrl: string;
+        let headers: Record<string, string>;
+        try {
+            chatUrl = this.buildRequestUrl(this.resolveChatEndpoint(apiEndpoint, defaultModel, providerSettings), providerSettings);
+            headers = { 'Content-Type': 'application/json', ...this.buildRequestHeaders(apiKey, providerSettings) };
+        } catch (error) {
+            callbacks.onError(`Invalid request settings: ${error instanceof Error ? error.message : String(error)}`, { kind: 'configuration' });
+            return;
+        }
 
         try {
-            const response = await fetch(apiEndpoint, {
+            const sendRequest = () => fetchWithRetry(chatUrl, {
                 method: 'POST',
                 headers: headers, // Use the conditionally constructed headers
                 body: JSON.stringify(requestBody),
                 signal: abortController?.signal, // Add abort signal support
-            });
+            }, { maxAttempts: settings.maxRequestAttempts, onRetry: callbacks.onRetry });
+            let response = await sendRequest();
+            callbacks.onResponse?.({ url: chatUrl, status: response.status });
+
+            // Many OpenAI-compatible servers (LM Studio, vLLM, gateways) reject json_schema. The caller validates the
+            // output anyway, so the request is sent once more without it, and later requests to the server skip it.
+            if (response.status === 400 && requestBody.response_format) {
+                console.warn(`OpenAIProvider: ${chatUrl} rejected the request with a JSON schema response format; retrying without it.`);
+                delete requestBody.response_format;
+                response = await sendRequest();
+                callbacks.onResponse?.({ url: chatUrl, status: response.status });
+                // A 400 for another reason fails again, so only a successful retry blames the response format
+                if (response.ok) RESPONSE_FORMAT_REJECTED.add(responseFormatKey);
+            }
 
             if (!response.ok) {
-                let errorDetails = `HTTP Error ${response.status}`;
-                try {
-                    const errorJson = await response.json() as OpenAIErrorResponse;
-                    if (errorJson.error) {
-                      errorDetails = `${errorJson.error.type || 'API Error'}: ${errorJson.error.message}`;
-                    } else {
-                        errorDetails = `HTTP Error ${response.status}: ${await response.text() || 'No additional details'}`;
-                    }
-                } catch (e) {
-                    errorDetails = `HTTP Error ${response.status}: ${await response.text() || 'Failed to parse error response.'}`;
-                }
+                const errorBody = await readErrorBody(response);
+                const errorJson = errorBody.json as OpenAIErrorResponse | undefined;
+                const errorDetails = errorJson?.error
+                    ? `${errorJson.error.type || 'API Error'}: ${errorJson.error.message}`
+                    : `HTTP Error ${response.status}: ${errorBody.text}`;
                 console.error('OpenAI API Error:', errorDetails, 'Full response status:', response.status);
-                callbacks.onError(errorDetails);
+                callbacks.onError(errorDetails, httpErrorDetails(response));
                 return;
             }
 
             if (!response.body) {
-                callbacks.onError('Response body is null.');
+                callbacks.onError('Response body is null.', { kind: 'stream' });
                 return;
             }
 
-            const reader = response.body.getReader();
-            const decoder = new TextDecoder();
-            let buffer = '';
-            let currentToolCallsAccumulator: OpenAIToolCall[] = []; 
-
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-                
-                buffer += decoder.decode(value, { stream: true });
-                let boundary = buffer.indexOf('\n\n');
-
-                while (boundary !== -1) {
-                    const chunk = buffer.substring(0, boundary);
-                    buffer = buffer.substring(boundary + 2);
-                    boundary = buffer.indexOf('\n\n');
-
-                    if (chunk.startsWith('data: ')) {
-                        const jsonData = chunk.substring(6);
-                        if (jsonData.trim() === '[DONE]') {
-                            continue; 
-                        }
-                        try {
-                            const parsed = JSON.parse(jsonData);
-                            if (parsed.choices && parsed.choices.length > 0) {
-                                const delta = parsed.choices[0].delta;
-                                const finishReason = parsed.choices[0].finish_reason;
-
-                                if (delta?.content) {
-                                    callbacks.onUpdate(delta.content, false); // Changed to onUpdate
-                                }
-                                
-                                if (delta?.tool_calls) {
-                                    delta.tool_calls.forEach((tcChunk: any) => {
-                                        const index = tcChunk.index;
-                                        if (!currentToolCallsAccumulator[index]) {
-                                            currentToolCallsAccumulator[index] = { id: '', type: 'function', function: { name: '', arguments: '' } };
-                                        }
-                                        if (tcChunk.id) currentToolCallsAccumulator[index].id = tcChunk.id;
-                                        if (tcChunk.type) currentToolCallsAccumulator[index].type = tcChunk.type as "function";
-                                        if (tcChunk.function?.name) currentToolCallsAccumulator[index].function.name += tcChunk.function.name;
-                                        if (tcChunk.function?.arguments) currentToolCallsAccumulator[index].function.arguments += tcChunk.function.arguments;
-                                    });
-                                }
-
-                                if (finishReason) {
-                                    if (finishReason === "tool_calls") {
-                                        if (callbacks.onToolCall) { // Use onToolCall
-                                            await callbacks.onToolCall(currentToolCallsAccumulator.filter(tc => tc && tc.id && tc.function.name && tc.function.arguments) as ToolCall[]);
-                                        }
-                                    } else {
-                                        callbacks.onUpdate("", true); // Changed to onUpdate
-                                    }
-                                    callbacks.onFinish(finishReason);
-                                    return; 
-                                }
+            const currentToolCallsAccumulator: OpenAIToolCall[] = []; 
+            let finishReason: string | undefined = undefined;
+            let usage: TokenUsage | undefined = undefined;
+            const thinkTagSplitter = new ThinkTagSplitter();
+            const emitContent = (splitText: SplitText) => {
+                if (splitText.reasoning && callbacks.onReasoning) callbacks.onReasoning(splitText.reasoning);
+                if (splitText.content) callbacks.onUpdate(splitText.content, false);
+            };
+
+            for await (const event of readSseEvents(response.body)) {
+                if (event.data.trim() === '[DONE]') {
+                    break;
+                }
+
+                let parsed: OpenAIStreamChunk;
+                try {
+                    parsed = JSON.parse(event.data) as OpenAIStreamChunk;
+                } catch (e) {
+                    console.error('Error parsing stream chunk:', e, 'Chunk:', event.data);
+                    continue;
+                }
+
+                if (parsed.error) { // Some OpenAI-compatible servers report failures inside the stream
+                    callbacks.onError(`${parsed.error.type || 'API Error'}: ${parsed.error.message || 'Unknown stream error'}`, { kind: 'stream' });
+                    return;
+                }
+
+                // With include_usage, the last chunk before [DONE] carries the usage and no choices
+                if (parsed.usage) {
+                    const cachedTokens = parsed.usage.prompt_tokens_details?.cached_tokens || 0;
+                    usage = {
+                        inputTokens: (parsed.usage.prompt_tokens || 0) - cachedTokens,
+                        outputTokens: parsed.usage.completion_tokens || 0,
+                        cacheReadTokens: cachedTokens,
+                        cacheWriteTokens: 0,
+                    };
+                }
+
+                if (parsed.choices && parsed.choices.length > 0) {
+                    const delta = parsed.choices[0].delta;
+
+                    // OpenAI-compatible servers for reasoning models (DeepSeek, vLLM, LM Studio, OpenRouter) stream
+                    // the reasoning in a separate field, or inline between <think> tags
+                    const reasoningDelta = delta?.reasoning_content || delta?.reasoning;
+                    if (reasoningDelta && callbacks.onReasoning) {
+                        callbacks.onReasoning(reasoningDelta);
+                    }
+                    if (delta?.content) {
+                        emitContent(thinkTagSplitter.push(delta.content));
+                    }
+                    
+                    if (delta?.tool_calls) {
+                        delta.tool_calls.forEach(tcChunk => {
+                            const index = tcChunk.index;
+                            if (!currentToolCallsAccumulator[index]) {
+                                currentToolCallsAccumulator[index] = { id: '', type: 'function', function: { name: '', arguments: '' } };
                             }
-                        } catch (e: any) {
-                            console.error('Error parsing stream chunk:', e, 'Chunk:', jsonData);
-                        }
+                            if (tcChunk.id) currentToolCallsAccumulator[index].id = tcChunk.id;
+                            if (tcChunk.type) currentToolCallsAccumulator[index].type = tcChunk.type as "function";
+                            if (tcChunk.function?.name) currentToolCallsAccumulator[index].function.name += tcChunk.function.name;
+                            if (tcChunk.function?.arguments) currentToolCallsAccumulator[index].function.arguments += tcChunk.function.arguments;
+                        });
+                    }
+
+                    if (parsed.choices[0].finish_reason) {
+                        finishReason = parsed.choices[0].finish_reason;
                     }
                 }
             }
-        } catch (error: any) {
+
+            emitContent(thinkTagSplitter.flush());
+
+            if (usage && callbacks.onUsage) {
+                callbacks.onUsage(usage);
+            }
+
+            // Some OpenAI-compatible servers report "stop" even when the turn ended in tool calls
+            const completedToolCalls = currentToolCallsAccumulator
+                .filter(tc => tc && tc.id && tc.function.name)
+                .map(tc => ({ ...tc, function: { name: toolNameMapper.fromApiName(tc.function.name), arguments: tc.function.arguments || '{}' } }));
+            if (callbacks.onToolCall && completedToolCalls.length > 0) {
+                await callbacks.onToolCall(completedToolCalls as ToolCall[]);
+            } else {
+                callbacks.onUpdate("", true); // Changed to onUpdate
+            }
+            callbacks.onFinish(finishReason || "stop");
+        } catch (error) {
             // Handle abort errors gracefully
-            if (error.name === 'AbortError') {
+            if (error instanceof Error && error.name === 'AbortError') {
                 callbacks.onFinish('aborted');
                 return;
             }
-            const errorMsg = `Failed to connect to OpenAI API (stream): ${error.message || 'Unknown error'}`;
+            const errorMsg = `Failed to connect to OpenAI API (stream): ${(error instanceof Error && error.message) || 'Unknown error'}`;
             console.error('OpenAI API Stream Request Failed:', error);
-            callbacks.onError(errorMsg);
+            callbacks.onError(errorMsg, { kind: 'network' });
         }
     }
 }
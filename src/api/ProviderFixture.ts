@@ -0,0 +1,189 @@
+// src/api/ProviderFixture.ts
+// Recorded provider traffic: what was sent to a provider and every callback it made, with timing.
+// RecordingProvider captures the traffic of a real provider; ReplayProvider plays a fixture file back.
+
+import { ObsigentPluginSettings } from '../main';
+import { McpTool } from '../types/mcp';
+import { HttpResponseInfo, LLMProvider, LLMProviderType, OpenAIMessage, ProviderCapabilities, StreamCallbacks, TokenUsage, ToolCall, ValidationReport, findProviderProfile } from './LLMProvider';
+import { RetryInfo } from './RequestRetry';
+import { StructuredOutputFormat } from './StructuredOutput';
+
+export const PROVIDER_FIXTURE_VERSION = 1;
+
+// delayMs is the time the provider took since the previous event (or the request), without the time spent in our
+// callbacks. Tool calls are awaited and may run a whole nested request, which must not be replayed as a pause.
+export type RecordedEvent =
+    | { type: 'update'; delayMs: number; chunk: string; isFinal: boolean }
+    | { type: 'reasoning'; delayMs: number; chunk: string }
+    | { type: 'toolCall'; delayMs: number; toolCalls: ToolCall[] }
+    | { type: 'usage'; delayMs: number; usage: TokenUsage }
+    | { type: 'retry'; delayMs: number; retry: RetryInfo }
+    | { type: 'response'; delayMs: number; response: HttpResponseInfo }
+    | { type: 'error'; delayMs: number; message: string; details?: unknown }
+    | { type: 'finish'; delayMs: number; reason?: string };
+
+export interface RecordedRequest {
+    messages: OpenAIMessage[];
+    tools: McpTool[];
+    responseFormat?: StructuredOutputFormat;
+}
+
+export interface RecordedInteraction {
+    recordedAt: string; // ISO timestamp of the request
+    profileName: string;
+    providerType: LLMProviderType;
+    model: string;
+    capabilities: ProviderCapabilities;
+    request: RecordedRequest;
+    events: RecordedEvent[];
+    complete: boolean; // False while the request is running, or if it never finished
+}
+
+export interface ProviderFixture {
+    version: number;
+    createdAt: string;
+    interactions: RecordedInteraction[];
+}
+
+export function parseProviderFixture(json: string): ProviderFixture {
+    const fixture = JSON.parse(json) as Partial<ProviderFixture>;
+    if (!fixture || !Array.isArray(fixture.interactions)) {
+        throw new Error('Not a provider fixture: the "interactions" list is missing.');
+    }
+    if (fixture.version !== PROVIDER_FIXTURE_VERSION) {
+        throw new Error(`Unsupported fixture version ${fixture.version}, expected ${PROVIDER_FIXTURE_VERSION}.`);
+    }
+    return fixture as ProviderFixture;
+}
+
+// Removes API keys and other secrets before they are written to a fixture; implemented by the RequestLog service
+export interface FixtureRedactor {
+    redact(text: string): string;
+    redactUrl(url: string): string;
+}
+
+// Wraps a provider and reports each request with its events. onStart is called when the request is sent, so
+// interactions are kept in the order the requests were made even when a tool call nests another request inside.
+export class RecordingProvider implements LLMProvider {
+    readonly providerName: string;
+    readonly profileId: string;
+    private provider: LLMProvider;
+    private onStart: (interaction: RecordedInteraction) => void;
+    private onComplete: (interaction: RecordedInteraction) => void;
+    private redactor: FixtureRedactor;
+
+    constructor(provider: LLMProvider, onStart: (interaction: RecordedInteraction) => void, onComplete: (interaction: RecordedInteraction) => void, redactor: FixtureRedactor) {
+        this.provider = provider;
+        this.providerName = provider.providerName;
+        this.profileId = provider.profileId;
+        this.onStart = onStart;
+        this.onComplete = onComplete;
+        this.redactor = redactor;
+        if (provider.listModels) this.listModels = provider.listModels.bind(provider);
+        if (provider.canListModels) this.canListModels = provider.canListModels.bind(provider);
+    }
+
+    listModels?: (settings: ObsigentPluginSettings) => Promise<string[]>;
+    canListModels?: (settings: ObsigentPluginSettings) => boolean;
+
+    getCapabilities(settings: ObsigentPluginSettings): ProviderCapabilities {
+        return this.provider.getCapabilities(settings);
+    }
+
+    validateSettings(settings: ObsigentPluginSettings): Promise<ValidationReport> {
+        return this.provider.validateSettings(settings);
+    }
+
+    async generateResponse(
+        messages: OpenAIMessage[],
+        settings: ObsigentPluginSettings,
+        callbacks: StreamCallbacks,
+        availableTools?: McpTool[],
+        abortController?: AbortController,
+        responseFormat?: StructuredOutputFormat
+    ): Promise<void> {
+        const profile = findProviderProfile(settings, this.profileId);
+        const interaction: RecordedInteraction = {
+            recordedAt: new Date().toISOString(),
+            profileName: profile?.name || this.profileId,
+            providerType: profile?.providerType || 'openai',
+            model: profile?.settings.defaultModel || '',
+            capabilities: this.provider.getCapabilities(settings),
+            // Copied, because the chat history is changed while the request runs
+            request: JSON.parse(JSON.stringify({ messages, tools: availableTools || [], responseFormat })),
+            events: [],
+            complete: false,
+        };
+        this.onStart(interaction);
+
+        let lastEventEnd = Date.now();
+        const record = (event: RecordedEvent) => {
+            interaction.events.push(event);
+        };
+        const elapsed = () => Date.now() - lastEventEnd;
+
+        const recordingCallbacks: StreamCallbacks = {
+            onUpdate: (chunk: string, isFinal: boolean) => {
+                record({ type: 'update', delayMs: elapsed(), chunk, isFinal });
+                callbacks.onUpdate(chunk, isFinal);
+                lastEventEnd = Date.now();
+            },
+            onError: (message: string, details?: unknown) => {
+                // Error bodies can echo parts of the key or the request URL
+                const serializedDetails: string | undefined = JSON.stringify(details);
+                const redactedDetails = serializedDetails === undefined ? undefined : JSON.parse(this.redactor.redact(serializedDetails));
+                record({ type: 'error', delayMs: elapsed(), message: this.redactor.redact(message), details: redactedDetails });
+                callbacks.onError(message, details);
+                lastEventEnd = Date.now();
+            },
+            onFinish: (reason?: string) => {
+                record({ type: 'finish', delayMs: elapsed(), reason });
+                callbacks.onFinish(reason);
+                lastEventEnd = Date.now();
+            },
+        };
+        if (callbacks.onToolCall) {
+            recordingCallbacks.onToolCall = async (toolCalls: ToolCall[]) => {
+                record({ type: 'toolCall', delayMs: elapsed(), toolCalls: JSON.parse(JSON.stringify(toolCalls)) });
+                await callbacks.onToolCall?.(toolCalls);
+                lastEventEnd = Date.now();
+            };
+        }
+        if (callbacks.onUsage) {
+            recordingCallbacks.onUsage = (usage: TokenUsage) => {
+                record({ type: 'usage', delayMs: elapsed(), usage: { ...usage } });
+                callbacks.onUsage?.(usage);
+                lastEventEnd = Date.now();
+            };
+        }
+        if (callbacks.onReasoning) {
+            recordingCallbacks.onReasoning = (chunk: string) => {
+                record({ type: 'reasoning', delayMs: elapsed(), chunk });
+                callbacks.onReasoning?.(chunk);
+                lastEventEnd = Date.now();
+            };
+        }
+        if (callbacks.onRetry) {
+            recordingCallbacks.onRetry = (retry: RetryInfo) => {
+                record({ type: 'retry', delayMs: elapsed(), retry: { ...retry } });
+                callbacks.onRetry?.(retry);
+                lastEventEnd = Date.now();
+            };
+        }
+        if (callbacks.onResponse) {
+            recordingCallbacks.onResponse = (response: HttpResponseInfo) => {
+                // The URL contains resolved query parameters, e.g. an Azure key or a {{secret:NAME}} value
+                record({ type: 'response', delayMs: elapsed(), response: { ...response, url: this.redactor.redactUrl(response.url) } });
+                callbacks.onResponse?.(response);
+                lastEventEnd = Date.now();
+            };
+        }
+
+        try {
+            await this.provider.generateResponse(messages, settings, recordingCallbacks, availableTools, abortController, responseFormat);
+            interaction.complete = true;
+        } finally {
+            this.onComplete(interaction);
+        }
+    }
+}
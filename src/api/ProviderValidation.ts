@@ -0,0 +1,177 @@
+// src/api/ProviderValidation.ts
+// Shared "Test connection" logic. Each provider describes what its configuration needs;
+// the steps below then exercise the live API the same way a chat message would.
+
+import { ObsigentPluginSettings } from '../main';
+import { McpTool } from '../types/mcp';
+import { LLMProvider, LLMProviderType, ToolCall, ValidationReport, ValidationStep, findProviderProfile, getProfileSettings } from './LLMProvider';
+import { resolveSecretReferences } from './SecretReferences';
+
+export interface ProviderValidationOptions {
+    endpoint: string; // Endpoint or base URL the provider will call
+    apiKeyRequired: boolean;
+}
+
+// Offered in the tool calling step; the call is never executed
+const CONNECTION_TEST_TOOL: McpTool = {
+    name: 'obsigent_connection_test',
+    description: 'Confirms that tool calling works. Call it whenever you are asked to.',
+    inputSchema: { type: 'object', properties: {} },
+};
+
+const TEST_REQUEST_TIMEOUT_MS = 30000;
+const REASONING_TEST_REQUEST_TIMEOUT_MS = 90000;
+
+interface TestRequestResult {
+    error?: string;
+    receivedText: boolean;
+    toolCalls: ToolCall[];
+}
+
+// Sends one short request and stops as soon as the answer starts (or a tool call arrives), to keep the test cheap
+async function sendTestRequest(provider: LLMProvider, settings: ObsigentPluginSettings, prompt: string, tools: McpTool[], timeoutMs: number): Promise<TestRequestResult> {
+    const result: TestRequestResult = { receivedText: false, toolCalls: [] };
+    const abortController = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+        timedOut = true;
+        abortController.abort();
+    }, timeoutMs);
+
+    try {
+        await provider.generateResponse(
+            [{ role: 'user', content: prompt }],
+            settings,
+            {
+                onUpdate: (chunk: string) => {
+                    if (chunk.trim().length > 0 && !result.receivedText) {
+                        result.receivedText = true;
+                        // For the tool step keep reading, the tool call may follow some text
+                        if (tools.length === 0) abortController.abort();
+                    }
+                },
+                onToolCall: async (toolCalls: ToolCall[]) => {
+                    result.toolCalls = toolCalls;
+                },
+                onError: (errorMsg: string) => {
+                    result.error = errorMsg;
+                },
+                onFinish: () => { /* Outcome is read from the collected result */ },
+            },
+            tools,
+            abortController
+        );
+    } catch (error) {
+        if (!abortController.signal.aborted) {
+            result.error = error instanceof Error ? error.message : String(error);
+        }
+    } finally {
+        clearTimeout(timeoutId);
+    }
+
+    if (timedOut && !result.receivedText && result.toolCalls.length === 0 && !result.error) {
+        result.error = `No response within ${timeoutMs / 1000}s.`;
+    }
+    return result;
+}
+
+export async function validateProviderConnection(provider: LLMProvider & { providerName: LLMProviderType }, settings: ObsigentPluginSettings, options: ProviderValidationOptions): Promise<ValidationReport> {
+    const steps: ValidationStep[] = [];
+    const providerSettings = getProfileSettings(settings, provider.profileId);
+    const model = (providerSettings.defaultModel || '').trim();
+    const capabilities = provider.getCapabilities(settings);
+    const timeoutMs = capabilities.reasoning ? REASONING_TEST_REQUEST_TIMEOUT_MS : TEST_REQUEST_TIMEOUT_MS;
+
+    const finish = (): ValidationReport => ({ ok: !steps.some(step => step.status === 'fail'), steps });
+    // Once a step fails, the remaining steps cannot tell us anything new
+    const skipRemaining = (...names: string[]) => {
+        names.forEach(name => steps.push({ name, status: 'skip', message: 'Skipped because a previous step failed.' }));
+    };
+
+    // 1. Settings that can be checked without a request
+    const configurationProblems: string[] = [];
+    try {
+        const url = new URL(options.endpoint);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            configurationProblems.push(`Endpoint must be an http(s) URL, got "${options.endpoint}".`);
+        }
+    } catch (e) {
+        configurationProblems.push(`Endpoint "${options.endpoint}" is not a valid URL.`);
+    }
+    if (options.apiKeyRequired && !providerSettings.apiKey?.trim()) {
+        configurationProblems.push('API key is not set.');
+    } else if (providerSettings.apiKey) {
+        try {
+            resolveSecretReferences(providerSettings.apiKey);
+        } catch (error) {
+            configurationProblems.push(`API key: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    if (!model) {
+        configurationProblems.push('Default model is not set.');
+    }
+    if (configurationProblems.length > 0) {
+        steps.push({ name: 'Configuration', status: 'fail', message: configurationProblems.join(' ') });
+        skipRemaining('Endpoint and API key', 'Model', 'Chat request', 'Tool calling');
+        return finish();
+    }
+    steps.push({ name: 'Configuration', status: 'pass', message: `Endpoint ${options.endpoint}, model "${model}".` });
+
+    // 2. + 3. The model list proves the endpoint is reachable and the key accepted, and lets us check the model ID
+    let availableModels: string[] | null = null;
+    if (provider.listModels && provider.canListModels?.(settings) !== false) {
+        try {
+            availableModels = await provider.listModels(settings);
+            steps.push({ name: 'Endpoint and API key', status: 'pass', message: `Connected, ${availableModels.length} model(s) available.` });
+        } catch (error) {
+            steps.push({ name: 'Endpoint and API key', status: 'fail', message: error instanceof Error ? error.message : String(error) });
+            skipRemaining('Model', 'Chat request', 'Tool calling');
+            return finish();
+        }
+    } else {
+        steps.push({ name: 'Endpoint and API key', status: 'skip', message: 'This provider cannot list models; checked by the chat request instead.' });
+    }
+
+    if (availableModels === null) {
+        steps.push({ name: 'Model', status: 'skip', message: 'No model list available; checked by the chat request instead.' });
+    } else if (availableModels.includes(model)) {
+        steps.push({ name: 'Model', status: 'pass', message: `"${model}" is available.` });
+    } else {
+        // Some servers accept aliases that are not listed, so the chat request decides
+        steps.push({ name: 'Model', status: 'warn', message: `"${model}" is not in the model list. Check the ID for typos.` });
+    }
+
+    // 4. A minimal chat request, without tools
+    const chatResult = await sendTestRequest(provider, settings, 'Reply with the single word OK.', [], timeoutMs);
+    if (chatResult.error) {
+        steps.push({ name: 'Chat request', status: 'fail', message: chatResult.error });
+        skipRemaining('Tool calling');
+        return finish();
+    }
+    steps.push({
+        name: 'Chat request',
+        status: chatResult.receivedText ? 'pass' : 'warn',
+        message: chatResult.receivedText ? 'The model answered.' : 'The request succeeded, but the model returned no text.',
+    });
+
+    // 5. Tool calling, forced where the API allows it
+    if (!capabilities.tools) {
+        steps.push({ name: 'Tool calling', status: 'skip', message: 'Tool support is disabled for this model, so no tools are sent.' });
+        return finish();
+    }
+    const toolTestSettings: ObsigentPluginSettings = JSON.parse(JSON.stringify(settings));
+    const toolTestProfile = findProviderProfile(toolTestSettings, provider.profileId);
+    if (toolTestProfile) {
+        toolTestProfile.settings.toolChoice = provider.providerName === 'ollama' ? 'auto' : 'required';
+    }
+
+    const toolResult = await sendTestRequest(provider, toolTestSettings, `Call the ${CONNECTION_TEST_TOOL.name} tool.`, [CONNECTION_TEST_TOOL], timeoutMs);
+    if (toolResult.error) {
+        steps.push({ name: 'Tool calling', status: 'fail', message: `Request with tools failed: ${toolResult.error} Disable tool support for this model in the settings below.` });
+    } else if (toolResult.toolCalls.some(toolCall => toolCall.function.name === CONNECTION_TEST_TOOL.name)) {
+        steps.push({ name: 'Tool calling', status: 'pass', message: 'The model called the test tool.' });
+    } else {
+        steps.push({ name: 'Tool calling', status: 'warn', message: 'Tools were accepted, but the model did not call the test tool.' });
+    }
+    return finish();
+}
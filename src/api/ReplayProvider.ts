@@ -0,0 +1,181 @@
+// src/api/ReplayProvider.ts
+// Plays back a fixture recorded with RecordingProvider instead of calling a model, with the recorded timing.
+// Tool calls are handed to the caller as they were recorded, so the tools really run and the agent loop is
+// exercised end to end; the follow-up request is then answered from the next matching interaction.
+
+import { ObsigentPluginSettings } from '../main';
+import { McpTool } from '../types/mcp';
+import { LLMProvider, OpenAIMessage, ProviderCapabilities, StreamCallbacks, ValidationReport, ValidationStep, getProfileSettings } from './LLMProvider';
+import { detectModelCapabilities } from './ModelCapabilities';
+import { ProviderFixture, RecordedEvent, RecordedInteraction, parseProviderFixture } from './ProviderFixture';
+import { getMessageText } from './MessageContent';
+import { StructuredOutputFormat } from './StructuredOutput';
+
+// Reads a vault-relative file, e.g. app.vault.adapter.read
+export type FixtureReader = (path: string) => Promise<string>;
+
+// Resolves early (with false) when the request is aborted
+function waitFor(delayMs: number, signal?: AbortSignal): Promise<boolean> {
+    return new Promise(resolve => {
+        if (signal?.aborted) {
+            resolve(false);
+            return;
+        }
+        if (delayMs <= 0) {
+            resolve(true);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            resolve(false);
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(true);
+        }, delayMs);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Tool results often contain timestamps or file contents that changed since the recording; the loose key
+// only keeps what the model said and which tools it called, so such a run still finds its interaction
+function getLooseRequestKey(messages: OpenAIMessage[]): string {
+    return JSON.stringify(messages.map(msg => ({
+        role: msg.role,
+        text: msg.role === 'tool' ? '' : getMessageText(msg.content),
+        toolCalls: msg.tool_calls?.map(toolCall => toolCall.function.name),
+    })));
+}
+
+export class ReplayProvider implements LLMProvider {
+    readonly providerName = "replay";
+    readonly profileId: string;
+    private readFixture: FixtureReader;
+    // Interactions already played by this instance; a request recorded twice is answered with the next recording
+    private playedInteractions: Set<RecordedInteraction> = new Set();
+
+    constructor(profileId: string, readFixture: FixtureReader) {
+        this.profileId = profileId;
+        this.readFixture = readFixture;
+    }
+
+    public getCapabilities(settings: ObsigentPluginSettings): ProviderCapabilities {
+        const providerSettings = getProfileSettings(settings, this.profileId);
+        return detectModelCapabilities('replay', providerSettings.defaultModel, providerSettings.capabilityOverrides);
+    }
+
+    private async loadFixture(settings: ObsigentPluginSettings): Promise<ProviderFixture> {
+        const fixturePath = getProfileSettings(settings, this.profileId).fixturePath?.trim();
+        if (!fixturePath) {
+            throw new Error('No fixture file is set. Choose a recording in the replay profile settings.');
+        }
+        let json: string;
+        try {
+            json = await this.readFixture(fixturePath);
+        } catch (error) {
+            throw new Error(`Could not read the fixture file "${fixturePath}": ${error instanceof Error ? error.message : String(error)}`);
+        }
+        try {
+            return parseProviderFixture(json);
+        } catch (error) {
+            throw new Error(`Could not parse the fixture file "${fixturePath}": ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Exact matches win over loose ones, and interactions not played yet over played ones
+    private findInteraction(fixture: ProviderFixture, messages: OpenAIMessage[]): RecordedInteraction | undefined {
+        const exactKey = JSON.stringify(messages);
+        const looseKey = getLooseRequestKey(messages);
+        const candidates = [
+            ...fixture.interactions.filter(interaction => JSON.stringify(interaction.request.messages) === exactKey),
+            ...fixture.interactions.filter(interaction => getLooseRequestKey(interaction.request.messages) === looseKey),
+        ];
+        return candidates.find(interaction => !this.playedInteractions.has(interaction)) || candidates[0];
+    }
+
+    public async generateResponse(
+        messages: OpenAIMessage[],
+        settings: ObsigentPluginSettings,
+        callbacks: StreamCallbacks,
+        _availableTools?: McpTool[],
+        abortController?: AbortController,
+        _responseFormat?: StructuredOutputFormat
+    ): Promise<void> {
+        let fixture: ProviderFixture;
+        try {
+            fixture = await this.loadFixture(settings);
+        } catch (error) {
+            callbacks.onError(error instanceof Error ? error.message : String(error), { kind: 'configuration' });
+            return;
+        }
+
+        const interaction = this.findInteraction(fixture, messages);
+        if (!interaction) {
+            const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
+            const preview = getMessageText(lastUserMessage?.content ?? null).slice(0, 80);
+            callbacks.onError(`The fixture has no recorded response for this conversation (last message: "${preview}"). The conversation diverged from the recording.`, { kind: 'configuration' });
+            return;
+        }
+        this.playedInteractions.add(interaction);
+
+        for (const event of interaction.events) {
+            if (!await waitFor(event.delayMs, abortController?.signal)) {
+                callbacks.onFinish('aborted');
+                return;
+            }
+            await this.playEvent(event, callbacks);
+        }
+        // A recording cut short (e.g. Obsidian was closed mid-request) still ends the request
+        if (!interaction.complete && !interaction.events.some(event => event.type === 'finish' || event.type === 'error')) {
+            callbacks.onError('The recorded request did not complete.', { kind: 'stream' });
+        }
+    }
+
+    private async playEvent(event: RecordedEvent, callbacks: StreamCallbacks): Promise<void> {
+        switch (event.type) {
+            case 'update':
+                callbacks.onUpdate(event.chunk, event.isFinal);
+                break;
+            case 'reasoning':
+                callbacks.onReasoning?.(event.chunk);
+                break;
+            case 'toolCall':
+                await callbacks.onToolCall?.(event.toolCalls);
+                break;
+            case 'usage':
+                callbacks.onUsage?.(event.usage);
+                break;
+            case 'retry':
+                callbacks.onRetry?.(event.retry);
+                break;
+            case 'response':
+                callbacks.onResponse?.(event.response);
+                break;
+            case 'error':
+                callbacks.onError(event.message, event.details);
+                break;
+            case 'finish':
+                callbacks.onFinish(event.reason);
+                break;
+        }
+    }
+
+    // There is no API to test; the fixture file has to exist and parse
+    public async validateSettings(settings: ObsigentPluginSettings): Promise<ValidationReport> {
+        const steps: ValidationStep[] = [];
+        try {
+            const fixture = await this.loadFixture(settings);
+            const models = Array.from(new Set(fixture.interactions.map(interaction => `${interaction.profileName} · ${interaction.model}`)));
+            steps.push({
+                name: 'Fixture file',
+                status: fixture.interactions.length > 0 ? 'pass' : 'warn',
+                message: fixture.interactions.length > 0
+                    ? `${fixture.interactions.length} recorded request(s) from ${models.join(', ')}.`
+                    : 'The fixture contains no recorded requests.',
+            });
+        } catch (error) {
+            steps.push({ name: 'Fixture file', status: 'fail', message: error instanceof Error ? error.message : String(error) });
+        }
+        return { ok: steps.every(step => step.status !== 'fail'), steps };
+    }
+}
@@ -0,0 +1,219 @@
+// src/api/RequestInspection.ts
+// The request inspector's view of a provider call: endpoint, model, request size, status, timing, usage and
+// errors, collected by wrapping the provider. Everything that could contain a secret is redacted by the sink
+// before it is stored, and message contents are only kept at the verbose log level.
+
+import { ObsigentPluginSettings } from '../main';
+import { McpTool } from '../types/mcp';
+import { HttpResponseInfo, LLMProvider, LLMProviderType, OpenAIMessage, ProviderCapabilities, StreamCallbacks, TokenUsage, ToolCall, ValidationReport, findProviderProfile } from './LLMProvider';
+import { getMessageImageUrls, getMessageText } from './MessageContent';
+import { RetryInfo } from './RequestRetry';
+import { StructuredOutputFormat } from './StructuredOutput';
+
+// off: nothing is logged; errors: failed requests only; requests: every request without contents;
+// verbose: every request with the (redacted) messages and response text
+export type RequestLogLevel = 'off' | 'errors' | 'requests' | 'verbose';
+
+export const REQUEST_LOG_LEVEL_NAMES: Record<RequestLogLevel, string> = {
+    off: "Off",
+    errors: "Errors only",
+    requests: "All requests",
+    verbose: "All requests with contents",
+};
+
+export type RequestOutcome = 'pending' | 'success' | 'toolCalls' | 'error' | 'aborted';
+
+// Longer message contents are cut in verbose logs, so the log stays small enough to keep in memory
+const MAX_LOGGED_CONTENT_LENGTH = 4000;
+
+export interface RequestLogMessage {
+    role: OpenAIMessage['role'];
+    content: string;
+    imageCount?: number;
+    toolCalls?: string[]; // Names of the tools an assistant message called
+}
+
+export interface RequestLogEntry {
+    id: number;
+    startedAt: string; // ISO timestamp
+    profileName: string;
+    providerType: LLMProviderType;
+    model: string;
+    endpoint: string; // Redacted; the profile's endpoint until the API answers, then the URL actually called
+    messageCount: number;
+    toolCount: number;
+    imageCount: number;
+    responseFormat?: string; // Name of the structured output format, if one was requested
+    status?: number; // HTTP status of the final attempt
+    attempts: number; // Including retries
+    firstOutputMs?: number; // Until the first text, reasoning or tool call
+    durationMs?: number; // Until the answer was complete; tool execution is not included
+    usage?: TokenUsage;
+    outcome: RequestOutcome;
+    finishReason?: string;
+    error?: string; // Redacted
+    toolCalls?: string[]; // Names of the tools the model called
+    // Verbose level only
+    messages?: RequestLogMessage[];
+    responseText?: string;
+}
+
+// Stores entries and knows the secrets to redact; implemented by the RequestLog service
+export interface RequestLogSink {
+    getLogLevel(): RequestLogLevel;
+    nextEntryId(): number;
+    redact(text: string): string;
+    redactUrl(url: string): string;
+    onRequestStart(entry: RequestLogEntry): void;
+    onRequestEnd(entry: RequestLogEntry): void;
+}
+
+function truncateContent(text: string): string {
+    return text.length > MAX_LOGGED_CONTENT_LENGTH ? `${text.slice(0, MAX_LOGGED_CONTENT_LENGTH)}… (${text.length - MAX_LOGGED_CONTENT_LENGTH} more characters)` : text;
+}
+
+export class InspectingProvider implements LLMProvider {
+    readonly providerName: string;
+    readonly profileId: string;
+    private provider: LLMProvider;
+    private sink: RequestLogSink;
+
+    constructor(provider: LLMProvider, sink: RequestLogSink) {
+        this.provider = provider;
+        this.providerName = provider.providerName;
+        this.profileId = provider.profileId;
+        this.sink = sink;
+        if (provider.listModels) this.listModels = provider.listModels.bind(provider);
+        if (provider.canListModels) this.canListModels = provider.canListModels.bind(provider);
+    }
+
+    listModels?: (settings: ObsigentPluginSettings) => Promise<string[]>;
+    canListModels?: (settings: ObsigentPluginSettings) => boolean;
+
+    getCapabilities(settings: ObsigentPluginSettings): ProviderCapabilities {
+        return this.provider.getCapabilities(settings);
+    }
+
+    validateSettings(settings: ObsigentPluginSettings): Promise<ValidationReport> {
+        return this.provider.validateSettings(settings);
+    }
+
+    async generateResponse(
+        messages: OpenAIMessage[],
+        settings: ObsigentPluginSettings,
+        callbacks: StreamCallbacks,
+        availableTools?: McpTool[],
+        abortController?: AbortController,
+        responseFormat?: StructuredOutputFormat
+    ): Promise<void> {
+        const logLevel = this.sink.getLogLevel();
+        if (logLevel === 'off') {
+            return this.provider.generateResponse(messages, settings, callbacks, availableTools, abortController, responseFormat);
+        }
+
+        const profile = findProviderProfile(settings, this.profileId);
+        const verbose = logLevel === 'verbose';
+        const startTime = Date.now();
+        const entry: RequestLogEntry = {
+            id: this.sink.nextEntryId(),
+            startedAt: new Date(startTime).toISOString(),
+            profileName: profile?.name || this.profileId,
+            providerType: profile?.providerType || 'openai',
+            model: profile?.settings.defaultModel || '',
+            endpoint: this.sink.redactUrl(profile?.settings.apiEndpoint || ''),
+            messageCount: messages.length,
+            toolCount: availableTools?.length || 0,
+            imageCount: messages.reduce((count, msg) => count + getMessageImageUrls(msg.content).length, 0),
+            responseFormat: responseFormat?.name,
+            attempts: 1,
+            outcome: 'pending',
+        };
+        if (verbose) {
+            entry.messages = messages.map(msg => {
+                const logMessage: RequestLogMessage = { role: msg.role, content: truncateContent(this.sink.redact(getMessageText(msg.content))) };
+                const imageCount = getMessageImageUrls(msg.content).length;
+                if (imageCount > 0) logMessage.imageCount = imageCount;
+                if (msg.tool_calls?.length) logMessage.toolCalls = msg.tool_calls.map(toolCall => toolCall.function.name);
+                return logMessage;
+            });
+            entry.responseText = '';
+        }
+        this.sink.onRequestStart(entry);
+
+        // Time spent in our callbacks (mostly running tools) is not part of the request
+        let callbackTime = 0;
+        const elapsed = () => Date.now() - startTime - callbackTime;
+        const markOutput = () => {
+            if (entry.firstOutputMs === undefined) entry.firstOutputMs = elapsed();
+        };
+        const complete = (outcome: RequestOutcome) => {
+            if (entry.outcome !== 'pending') return;
+            entry.outcome = outcome;
+            entry.durationMs = elapsed();
+            if (entry.responseText !== undefined) entry.responseText = truncateContent(this.sink.redact(entry.responseText));
+            this.sink.onRequestEnd(entry);
+        };
+
+        const inspectingCallbacks: StreamCallbacks = {
+            ...callbacks,
+            onUpdate: (chunk: string, isFinal: boolean) => {
+                if (chunk) markOutput();
+                if (entry.responseText !== undefined) entry.responseText += chunk;
+                callbacks.onUpdate(chunk, isFinal);
+            },
+            onError: (message: string, details?: unknown) => {
+                entry.error = this.sink.redact(message);
+                complete('error');
+                callbacks.onError(message, details);
+            },
+            onFinish: (reason?: string) => {
+                entry.finishReason = reason;
+                complete(reason === 'aborted' ? 'aborted' : 'success');
+                callbacks.onFinish(reason);
+            },
+            onUsage: (usage: TokenUsage) => {
+                entry.usage = { ...usage };
+                callbacks.onUsage?.(usage);
+            },
+            onRetry: (retry: RetryInfo) => {
+                entry.attempts = retry.attempt;
+                callbacks.onRetry?.(retry);
+            },
+            onResponse: (response: HttpResponseInfo) => {
+                entry.endpoint = this.sink.redactUrl(response.url);
+                entry.status = response.status;
+                callbacks.onResponse?.(response);
+            },
+        };
+        if (callbacks.onReasoning) {
+            inspectingCallbacks.onReasoning = (chunk: string) => {
+                markOutput();
+                callbacks.onReasoning?.(chunk);
+            };
+        }
+        if (callbacks.onToolCall) {
+            inspectingCallbacks.onToolCall = async (toolCalls: ToolCall[]) => {
+                markOutput();
+                entry.toolCalls = toolCalls.map(toolCall => toolCall.function.name);
+                // The answer is complete once the model asks for tools; the follow-up request gets its own entry
+                complete('toolCalls');
+                const callbackStart = Date.now();
+                try {
+                    await callbacks.onToolCall?.(toolCalls);
+                } finally {
+                    callbackTime += Date.now() - callbackStart;
+                }
+            };
+        }
+
+        try {
+            await this.provider.generateResponse(messages, settings, inspectingCallbacks, availableTools, abortController, responseFormat);
+        } catch (error) {
+            entry.error = this.sink.redact(error instanceof Error ? error.message : String(error));
+            complete('error');
+            throw error;
+        }
+        // Providers end every request with a callback; this only catches one that returned without
+        complete(abortController?.signal.aborted ? 'aborted' : 'success');
+    }
+}
@@ -0,0 +1,96 @@
+// src/api/RequestRetry.ts
+// Shared request layer for the streaming chat requests: retries rate limits and transient failures
+// with exponential backoff and jitter, honoring Retry-After.
+// Only the request is retried. Once a response with a success status arrives, its stream belongs to the provider
+// and failures while reading it are reported as errors, so content is never received twice.
+
+export const DEFAULT_MAX_REQUEST_ATTEMPTS = 3;
+
+const BASE_DELAY_MS = 1000;
+const MAX_BACKOFF_DELAY_MS = 30000;
+const MAX_RETRY_AFTER_MS = 60000; // A longer Retry-After is reported as an error instead of blocking the chat
+
+// 408 Request Timeout, 429 Too Many Requests, 5xx server errors and Anthropic's 529 Overloaded
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+export interface RetryInfo {
+    attempt: number; // The attempt that is about to be made, starting at 2
+    maxAttempts: number;
+    delayMs: number;
+    reason: string; // e.g. "HTTP 429" or "Network error: fetch failed"
+}
+
+export interface RetryOptions {
+    maxAttempts?: number; // Including the first request; 1 disables retries
+    onRetry?: (retry: RetryInfo) => void;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(retryAfter: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!retryAfter) return undefined;
+    const trimmed = retryAfter.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.round(parseFloat(trimmed) * 1000);
+    }
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Exponential backoff with jitter between half and the full delay, so clients that failed together do not retry together
+function getBackoffDelay(attempt: number): number {
+    const delay = Math.min(MAX_BACKOFF_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+function wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('The request was aborted.', 'AbortError'));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(new DOMException('The request was aborted.', 'AbortError'));
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, delayMs);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// fetch() with retries. Resolves with the first response that should not be retried, or with the last
+// failed response once the attempts are used up, so the caller reports the error as before.
+// Network errors of the last attempt and aborts (init.signal, also while waiting) are thrown like fetch() does.
+export async function fetchWithRetry(url: string, init: RequestInit, options: RetryOptions = {}): Promise<Response> {
+    const maxAttempts = Math.max(1, Math.floor(options.maxAttempts ?? DEFAULT_MAX_REQUEST_ATTEMPTS));
+
+    for (let attempt = 1; ; attempt++) {
+        let delayMs: number;
+        let reason: string;
+        try {
+            const response = await fetch(url, init);
+            if (response.ok || !RETRYABLE_STATUSES.has(response.status) || attempt >= maxAttempts) {
+                return response;
+            }
+            const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+            if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS) {
+                return response;
+            }
+            delayMs = retryAfterMs ?? getBackoffDelay(attempt);
+            reason = `HTTP ${response.status}`;
+            // Release the connection of the failed response
+            await response.body?.cancel().catch(() => undefined);
+        } catch (error) {
+            if ((error instanceof Error || error instanceof DOMException) && error.name === 'AbortError') throw error;
+            if (attempt >= maxAttempts) throw error;
+            delayMs = getBackoffDelay(attempt);
+            reason = `Network error: ${error instanceof Error ? error.message : String(error)}`;
+        }
+
+        console.warn(`Obsigent: Request failed (${reason}), retrying in ${delayMs}ms (attempt ${attempt + 1} of ${maxAttempts}).`);
+        options.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason });
+        await wait(delayMs, init.signal ?? undefined);
+    }
+}
@@ -0,0 +1,131 @@
+// src/api/SamplingParameters.ts
+// Typed sampling parameters of a provider profile, which of them each provider supports and how they are validated.
+// Unset parameters are not sent, so the API's own defaults apply.
+
+import { LLMProviderType } from './LLMProvider';
+
+export interface SamplingParameters {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    maxTokens?: number; // Output tokens per response
+    stopSequences?: string[];
+    seed?: number;
+    numCtx?: number; // Ollama: context length the model is loaded with
+    keepAlive?: string | number; // Ollama: how long the model stays loaded, e.g. "5m", "1h", or seconds: -1 (forever) or 0 (unload)
+}
+
+export type SamplingParameter = keyof SamplingParameters;
+
+export const SUPPORTED_SAMPLING_PARAMETERS: Record<LLMProviderType, SamplingParameter[]> = {
+    openai: ['temperature', 'topP', 'maxTokens', 'stopSequences', 'seed'],
+    anthropic: ['temperature', 'topP', 'topK', 'maxTokens', 'stopSequences'],
+    google: ['temperature', 'topP', 'topK', 'maxTokens', 'stopSequences', 'seed'],
+    cohere: ['temperature', 'topP', 'topK', 'maxTokens', 'stopSequences', 'seed'],
+    ollama: ['temperature', 'topP', 'topK', 'maxTokens', 'stopSequences', 'seed', 'numCtx', 'keepAlive'],
+    replay: [], // Responses are recorded, nothing is sampled
+};
+
+export const SAMPLING_PARAMETER_NAMES: Record<SamplingParameter, string> = {
+    temperature: 'Temperature',
+    topP: 'Top P',
+    topK: 'Top K',
+    maxTokens: 'Max Tokens',
+    stopSequences: 'Stop Sequences',
+    seed: 'Seed',
+    numCtx: 'Context Length (num_ctx)',
+    keepAlive: 'Keep Alive',
+};
+
+// Ranges the APIs accept; a value outside them would fail every request
+const TEMPERATURE_MAX: Record<LLMProviderType, number> = { openai: 2, anthropic: 1, google: 2, cohere: 1, ollama: 2, replay: 2 };
+const TOP_K_MAX: Partial<Record<LLMProviderType, number>> = { cohere: 500 };
+const STOP_SEQUENCES_MAX: Partial<Record<LLMProviderType, number>> = { openai: 4, cohere: 5, google: 5 };
+
+export function getSamplingParameterDescription(providerType: LLMProviderType, parameter: SamplingParameter): string {
+    switch (parameter) {
+        case 'temperature':
+            return `Randomness of the output, 0 to ${TEMPERATURE_MAX[providerType]}. Lower is more focused.${providerType === 'anthropic' ? ' Default 0.7 unless top P is set; ignored while extended thinking is on.' : ''}`;
+        case 'topP':
+            return `Nucleus sampling: only tokens within this cumulative probability are considered, 0 to 1.${providerType === 'anthropic' ? ' Not sent while a temperature is set, as Anthropic does not accept both.' : ''}`;
+        case 'topK':
+            return `Only the K most likely tokens are considered${TOP_K_MAX[providerType] ? `, 1 to ${TOP_K_MAX[providerType]}` : ''}.`;
+        case 'maxTokens':
+            return providerType === 'anthropic'
+                ? 'Maximum tokens per response. Anthropic requires a limit; default 4096.'
+                : 'Maximum tokens per response.';
+        case 'stopSequences':
+            return `Text that ends the response when generated, comma-separated${STOP_SEQUENCES_MAX[providerType] ? `, at most ${STOP_SEQUENCES_MAX[providerType]}` : ''}.`;
+        case 'seed':
+            return 'Makes sampling repeatable where the model supports it. Integer.';
+        case 'numCtx':
+            return 'Context window Ollama loads the model with, in tokens. Ollama defaults to a small window, which cuts off long conversations. The chat history is fitted to this size when it is set.';
+        case 'keepAlive':
+            return 'How long Ollama keeps the model in memory after a request, e.g. "5m" or "1h", or a number of seconds. "-1" keeps it loaded, "0" unloads it right away.';
+    }
+}
+
+export type SamplingParameterValue = SamplingParameters[SamplingParameter];
+
+// Parses a settings field. An empty field unsets the parameter; invalid input returns an error and no value.
+export function parseSamplingParameter(providerType: LLMProviderType, parameter: SamplingParameter, input: string): { value?: SamplingParameterValue; error?: string } {
+    const text = input.trim();
+    if (!text) return {};
+
+    const parseNumber = (min: number, max: number, integer: boolean): { value?: number; error?: string } => {
+        const value = Number(text);
+        if (!Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+            return { error: `Must be ${integer ? 'an integer' : 'a number'}.` };
+        }
+        if (value < min || value > max) {
+            return { error: max === Infinity ? `Must be at least ${min}.` : `Must be between ${min} and ${max}.` };
+        }
+        return { value };
+    };
+
+    switch (parameter) {
+        case 'temperature':
+            return parseNumber(0, TEMPERATURE_MAX[providerType], false);
+        case 'topP':
+            return parseNumber(0, 1, false);
+        case 'topK':
+            return parseNumber(1, TOP_K_MAX[providerType] ?? Infinity, true);
+        case 'maxTokens':
+        case 'numCtx':
+            return parseNumber(1, Infinity, true);
+        case 'seed':
+            return parseNumber(Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER, true);
+        case 'stopSequences': {
+            const stopSequences = text.split(',').map(sequence => sequence.trim()).filter(sequence => sequence.length > 0);
+            const maxCount = STOP_SEQUENCES_MAX[providerType];
+            if (maxCount && stopSequences.length > maxCount) {
+                return { error: `At most ${maxCount} stop sequences are allowed.` };
+            }
+            return { value: stopSequences.length > 0 ? stopSequences : undefined };
+        }
+        case 'keepAlive':
+            // A duration with unit, or a number of seconds (negative keeps the model loaded). Ollama parses strings
+            // as Go durations, which need a unit, so a bare number is stored and sent as a number.
+            if (!/^-?\d+(\.\d+)?(ms|s|m|h)?$/.test(text)) {
+                return { error: 'Must be a duration such as "30s", "5m" or "1h", or a number of seconds.' };
+            }
+            return { value: /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : text };
+    }
+}
+
+export function formatSamplingParameter(value: SamplingParameterValue): string {
+    if (value === undefined) return '';
+    return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+// The parameters of a profile that its provider supports, so settings left over from another type are ignored
+export function getSamplingParameters(providerType: LLMProviderType, sampling: SamplingParameters | undefined): SamplingParameters {
+    const supported: SamplingParameters = {};
+    if (!sampling) return supported;
+    for (const parameter of SUPPORTED_SAMPLING_PARAMETERS[providerType]) {
+        if (sampling[parameter] !== undefined) {
+            (supported as Record<SamplingParameter, SamplingParameterValue>)[parameter] = sampling[parameter];
+        }
+    }
+    return supported;
+}
@@ -0,0 +1,93 @@
+// src/api/SecretReferences.ts
+// Settings values such as API keys and custom header values can reference a secret instead of containing it,
+// so the secret never ends up in data.json, which is synced and often committed along with the vault.
+// "{{env:NAME}}" is replaced with the environment variable NAME and "{{secret:NAME}}" with the value stored
+// under NAME in the secret store file (see SecretStore) when a request is made.
+// Anything shown in logs goes through redactSecrets/redactUrl first.
+
+const SECRET_REFERENCE_PATTERN = /\{\{\s*(env|secret):([A-Za-z_][A-Za-z0-9_.-]*)\s*\}\}/g;
+
+// Values of {{secret:NAME}} references; kept in sync with the secret store file by SecretStore
+let storedSecrets: Record<string, string> = {};
+
+export function setStoredSecrets(secrets: Record<string, string>): void {
+    storedSecrets = { ...secrets };
+}
+
+export function getStoredSecretValues(): string[] {
+    return Object.values(storedSecrets);
+}
+
+export function hasSecretReference(value: string): boolean {
+    return new RegExp(SECRET_REFERENCE_PATTERN.source).test(value);
+}
+
+export function formatStoredSecretReference(name: string): string {
+    return `{{secret:${name}}}`;
+}
+
+// The name of the stored secret if the whole value is one {{secret:NAME}} reference
+export function getStoredSecretName(value: string): string | null {
+    const match = /^\{\{\s*secret:([A-Za-z_][A-Za-z0-9_.-]*)\s*\}\}$/.exec(value.trim());
+    return match ? match[1] : null;
+}
+
+// Throws with a user-facing message if a referenced secret is not available, rather than sending an empty secret
+export function resolveSecretReferences(value: string): string {
+    return value.replace(SECRET_REFERENCE_PATTERN, (_match, source: string, name: string) => {
+        if (source === 'secret') {
+            const stored = storedSecrets[name];
+            if (stored === undefined) {
+                // The secret store file is not synced, so on another device the reference arrives without its value
+                throw new Error(`The stored secret "${name}" is not available on this device. Enter it again in the Obsigent settings.`);
+            }
+            return stored;
+        }
+        // Obsidian's desktop app exposes the environment of the process it was started from
+        const resolved = typeof process !== 'undefined' ? process.env[name] : undefined;
+        if (resolved === undefined) {
+            throw new Error(`Environment variable "${name}" is not set. Start Obsidian from an environment that defines it.`);
+        }
+        return resolved;
+    });
+}
+
+// e.g. "••••••••wxyz", for showing that a secret is set without revealing it
+export function maskSecret(value: string): string {
+    return value.length > 12 ? `••••••••${value.slice(-4)}` : '••••••••';
+}
+
+// Shorter values (e.g. an api-version) would blank out unrelated text
+const MIN_REDACTED_SECRET_LENGTH = 8;
+
+// Query parameters that carry credentials in some APIs, e.g. "key" for Gemini or "sig" for Azure SAS URLs
+const SECRET_QUERY_PARAMETER_PATTERN = /^(key|api[-_]?key|token|access[-_]?token|sig|signature|code|secret)$/i;
+
+// Replaces every occurrence of the given secrets, e.g. an API key echoed in an error message
+export function redactSecrets(text: string, secrets: string[]): string {
+    let redacted = text;
+    for (const secret of secrets) {
+        if (secret.length >= MIN_REDACTED_SECRET_LENGTH) {
+            redacted = redacted.split(secret).join('[REDACTED]');
+        }
+    }
+    return redacted;
+}
+
+// Also blanks out credential query parameters and user info, which are secrets even when we do not know their value
+export function redactUrl(url: string, secrets: string[]): string {
+    try {
+        const parsedUrl = new URL(url);
+        if (parsedUrl.username || parsedUrl.password) {
+            parsedUrl.username = 'REDACTED';
+            parsedUrl.password = '';
+        }
+        for (const name of Array.from(new Set(parsedUrl.searchParams.keys()))) {
+            if (SECRET_QUERY_PARAMETER_PATTERN.test(name)) parsedUrl.searchParams.set(name, 'REDACTED');
+        }
+        return redactSecrets(parsedUrl.toString(), secrets);
+    } catch (e) {
+        // Not a valid URL, only the known secrets can be removed
+        return redactSecrets(url, secrets);
+    }
+}
@@ -0,0 +1,130 @@
+import { describe, expect, test } from 'bun:test';
+import { LineDecoder, NdjsonDecoder, SseDecoder, SseEvent, readNdjsonLines, readSseEvents } from './StreamDecoder';
+
+const encoder = new TextEncoder();
+
+// Feeds the chunks one by one and flushes at the end, like readStream does
+function decodeSse(chunks: (string | Uint8Array)[]): SseEvent[] {
+    const decoder = new SseDecoder();
+    const events = chunks.flatMap(chunk => decoder.push(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+    return events.concat(decoder.flush());
+}
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+    return new ReadableStream({
+        start(controller) {
+            chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+            controller.close();
+        },
+    });
+}
+
+async function collect<T>(items: AsyncGenerator<T>): Promise<T[]> {
+    const collected: T[] = [];
+    for await (const item of items) collected.push(item);
+    return collected;
+}
+
+describe('LineDecoder', () => {
+    test('splits on \\n, \\r\\n and a lone \\r', () => {
+        const decoder = new LineDecoder();
+        expect(decoder.push('a\nb\r\nc\rd')).toEqual(['a', 'b', 'c']);
+        expect(decoder.flush()).toEqual(['d']);
+    });
+
+    test('keeps a \\r\\n split across chunks as one line ending', () => {
+        const decoder = new LineDecoder();
+        expect(decoder.push('a\r')).toEqual([]);
+        expect(decoder.push('\nb\n')).toEqual(['a', 'b']);
+        expect(decoder.flush()).toEqual([]);
+    });
+
+    test('ends a line on a \\r at the end of the stream', () => {
+        const decoder = new LineDecoder();
+        expect(decoder.push('a\r')).toEqual([]);
+        expect(decoder.flush()).toEqual(['a']);
+    });
+
+    test('decodes a UTF-8 character split across chunks', () => {
+        const bytes = encoder.encode('Grüße 😀\n');
+        const decoder = new LineDecoder();
+        // Cuts through the two-byte "ü" and the four-byte emoji
+        const lines = [bytes.slice(0, 3), bytes.slice(3, 9), bytes.slice(9)].flatMap(chunk => decoder.push(chunk));
+        expect(lines.concat(decoder.flush())).toEqual(['Grüße 😀']);
+    });
+});
+
+describe('SseDecoder', () => {
+    test('dispatches events on a blank line with their event type', () => {
+        expect(decodeSse(['event: message_start\ndata: {"a":1}\n\ndata: {"b":2}\n\n'])).toEqual([
+            { event: 'message_start', data: '{"a":1}', id: undefined, retry: undefined },
+            { event: 'message', data: '{"b":2}', id: undefined, retry: undefined },
+        ]);
+    });
+
+    test('handles \\r\\n and lone \\r line endings', () => {
+        const events = decodeSse(['data: one\r\n\r\ndata: two\r\rdata: three\r', '\n\r\n']);
+        expect(events.map(event => event.data)).toEqual(['one', 'two', 'three']);
+    });
+
+    test('joins multi-line data with \\n', () => {
+        expect(decodeSse(['data: first\ndata:second\ndata:  third\n\n'])[0].data).toBe('first\nsecond\n third');
+    });
+
+    test('ignores comment lines and events without data', () => {
+        const events = decodeSse([': keep-alive\n\nevent: ping\n\n:comment\ndata: payload\n\n']);
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ event: 'message', data: 'payload' });
+    });
+
+    test('keeps the last event ID and reads retry', () => {
+        const events = decodeSse(['id: 7\nretry: 1500\ndata: a\n\ndata: b\n\n']);
+        expect(events[0]).toMatchObject({ id: '7', retry: 1500 });
+        expect(events[1]).toMatchObject({ id: '7', retry: undefined });
+    });
+
+    test('reassembles an event split across chunks, including a UTF-8 character', () => {
+        const bytes = encoder.encode('data: {"text":"héllo"}\n\n');
+        const splitAt = bytes.indexOf(0xc3) + 1; // Inside the two bytes of "é"
+        const events = decodeSse([bytes.slice(0, splitAt), bytes.slice(splitAt)]);
+        expect(events.map(event => event.data)).toEqual(['{"text":"héllo"}']);
+    });
+
+    test('flushes a final event without a terminating blank line', () => {
+        expect(decodeSse(['data: a\n\ndata: last']).map(event => event.data)).toEqual(['a', 'last']);
+        expect(decodeSse(['event: done\ndata: last\n']).map(event => event.event)).toEqual(['done']);
+    });
+});
+
+describe('NdjsonDecoder', () => {
+    test('yields non-empty lines, including an unterminated last line', () => {
+        const decoder = new NdjsonDecoder();
+        const lines = decoder.push('{"a":1}\n\n{"b"').concat(decoder.push(':2}\r\n  \n{"c":3}'), decoder.flush());
+        expect(lines.map(line => JSON.parse(line))).toEqual([{ a: 1 }, { b: 2 }, { c: 3 }]);
+    });
+});
+
+describe('readSseEvents and readNdjsonLines', () => {
+    test('read a response body to the end', async () => {
+        const events = await collect(readSseEvents(streamOf(['data: a\n', '\ndata: b'])));
+        expect(events.map(event => event.data)).toEqual(['a', 'b']);
+        expect(await collect(readNdjsonLines(streamOf(['{"a":1}\n{"b"', ':2}'])))).toEqual(['{"a":1}', '{"b":2}']);
+    });
+
+    test('cancel the body when the loop ends early', async () => {
+        let cancelled = false;
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                controller.enqueue(encoder.encode('data: tick\n\n'));
+            },
+            cancel() {
+                cancelled = true;
+            },
+        });
+        for await (const event of readSseEvents(body)) {
+            expect(event.data).toBe('tick');
+            break;
+        }
+        expect(cancelled).toBe(true);
+    });
+});
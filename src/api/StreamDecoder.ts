@@ -0,0 +1,163 @@
+// src/api/StreamDecoder.ts
+// Decoders for the streaming formats used by LLM APIs:
+// - Server-Sent Events (OpenAI, Anthropic, Google, Cohere), following the WHATWG event stream rules
+// - Newline-delimited JSON (Ollama)
+// Both accept raw byte chunks, so multi-byte UTF-8 characters split across chunks are decoded correctly.
+
+export interface SseEvent {
+    event: string; // Event type, "message" if the server did not send an "event:" field
+    data: string; // All "data:" lines of the event, joined with "\n"
+    id?: string; // Last event ID seen so far in the stream
+    retry?: number; // Reconnection time in milliseconds, if the event carried one
+}
+
+// Splits a byte stream into lines. Lines may end in "\n", "\r\n" or a lone "\r".
+export class LineDecoder {
+    private textDecoder = new TextDecoder();
+    private buffer = '';
+
+    public push(chunk: Uint8Array | string): string[] {
+        this.buffer += typeof chunk === 'string' ? chunk : this.textDecoder.decode(chunk, { stream: true });
+        return this.extractLines(false);
+    }
+
+    // Returns the remaining lines at the end of the stream, including an unterminated last line
+    public flush(): string[] {
+        this.buffer += this.textDecoder.decode();
+        return this.extractLines(true);
+    }
+
+    private extractLines(isFinal: boolean): string[] {
+        const lines: string[] = [];
+        let lineStart = 0;
+        for (let i = 0; i < this.buffer.length; i++) {
+            const char = this.buffer[i];
+            if (char !== '\n' && char !== '\r') continue;
+            // A trailing "\r" might be the first half of a "\r\n" split across chunks
+            if (char === '\r' && i === this.buffer.length - 1 && !isFinal) break;
+            lines.push(this.buffer.substring(lineStart, i));
+            if (char === '\r' && this.buffer[i + 1] === '\n') i++;
+            lineStart = i + 1;
+        }
+        this.buffer = this.buffer.substring(lineStart);
+        if (isFinal && this.buffer.length > 0) {
+            lines.push(this.buffer);
+            this.buffer = '';
+        }
+        return lines;
+    }
+}
+
+export class SseDecoder {
+    private lineDecoder = new LineDecoder();
+    private eventType = '';
+    private dataLines: string[] = [];
+    private lastEventId: string | undefined = undefined;
+    private retry: number | undefined = undefined;
+
+    public push(chunk: Uint8Array | string): SseEvent[] {
+        return this.processLines(this.lineDecoder.push(chunk));
+    }
+
+    // Returns the remaining events at the end of the stream. Unlike browsers, an event that was not
+    // terminated by a blank line is still dispatched, as some servers close the stream right after it.
+    public flush(): SseEvent[] {
+        const events = this.processLines(this.lineDecoder.flush());
+        const pendingEvent = this.dispatchEvent();
+        if (pendingEvent) events.push(pendingEvent);
+        return events;
+    }
+
+    private processLines(lines: string[]): SseEvent[] {
+        const events: SseEvent[] = [];
+        for (const line of lines) {
+            if (line === '') {
+                const event = this.dispatchEvent();
+                if (event) events.push(event);
+                continue;
+            }
+            if (line.startsWith(':')) continue; // Comment, often used as keep-alive
+
+            const colonIndex = line.indexOf(':');
+            const field = colonIndex === -1 ? line : line.substring(0, colonIndex);
+            let value = colonIndex === -1 ? '' : line.substring(colonIndex + 1);
+            if (value.startsWith(' ')) value = value.substring(1);
+
+            switch (field) {
+                case 'event':
+                    this.eventType = value;
+                    break;
+                case 'data':
+                    this.dataLines.push(value);
+                    break;
+                case 'id':
+                    if (!value.includes('\u0000')) this.lastEventId = value;
+                    break;
+                case 'retry':
+                    if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+                    break;
+                default:
+                    break; // Unknown fields are ignored
+            }
+        }
+        return events;
+    }
+
+    private dispatchEvent(): SseEvent | null {
+        const hasData = this.dataLines.length > 0;
+        const event: SseEvent = {
+            event: this.eventType || 'message',
+            data: this.dataLines.join('\n'),
+            id: this.lastEventId,
+            retry: this.retry,
+        };
+        this.eventType = '';
+        this.dataLines = [];
+        this.retry = undefined;
+        // Events without data are not dispatched
+        return hasData ? event : null;
+    }
+}
+
+// Splits newline-delimited JSON into its non-empty lines; parsing is left to the caller
+export class NdjsonDecoder {
+    private lineDecoder = new LineDecoder();
+
+    public push(chunk: Uint8Array | string): string[] {
+        return this.lineDecoder.push(chunk).filter(line => line.trim() !== '');
+    }
+
+    public flush(): string[] {
+        return this.lineDecoder.flush().filter(line => line.trim() !== '');
+    }
+}
+
+// Reads a response body to the end and yields its items, flushing the decoder once the stream is done.
+// Breaking out of the loop early cancels the underlying stream.
+async function* readStream<T>(body: ReadableStream<Uint8Array>, decoder: { push(chunk: Uint8Array): T[]; flush(): T[] }): AsyncGenerator<T> {
+    const reader = body.getReader();
+    let finished = false;
+    try {
+        while (!finished) {
+            const { done, value } = await reader.read();
+            finished = done;
+            const items = done ? decoder.flush() : decoder.push(value);
+            for (const item of items) {
+                yield item;
+            }
+        }
+    } finally {
+        if (!finished) {
+            reader.cancel().catch(() => { /* The stream may already be errored or aborted */ });
+        }
+        reader.releaseLock();
+    }
+}
+
+export function readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+    return readStream(body, new SseDecoder());
+}
+
+export function readNdjsonLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    return readStream(body, new NdjsonDecoder());
+}
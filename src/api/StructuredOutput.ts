@@ -0,0 +1,88 @@
+// src/api/StructuredOutput.ts
+// Structured JSON output: the schema a response must follow, tolerant parsing of the response text and a
+// small validator for the JSON schema subset we use. Providers constrain the output with their own feature
+// (OpenAI/Cohere response_format, Ollama format, Anthropic forced tool use, Gemini JSON mode); the caller
+// still validates, because not every model or OpenAI-compatible server honours the constraint.
+
+import { JsonSchema } from '../types/jsonSchema';
+
+export interface StructuredOutputFormat {
+    name: string; // Identifier of the output, e.g. the forced tool name for Anthropic; letters, digits, _ and -
+    description?: string;
+    schema: JsonSchema; // Must describe an object
+}
+
+export interface StructuredOutputResult {
+    value?: unknown;
+    errors: string[]; // Why the text is not valid output; empty when value is set
+}
+
+// Finds the JSON object in a response: reasoning in <think> tags, markdown fences and text around the object are removed
+export function extractJsonText(text: string): string {
+    let stripped = text.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+    const fenceMatch = /```(?:json)?\s*([\s\S]*?)```/i.exec(stripped);
+    if (fenceMatch) {
+        stripped = fenceMatch[1].trim();
+    }
+    const start = stripped.indexOf('{');
+    const end = stripped.lastIndexOf('}');
+    return start !== -1 && end > start ? stripped.slice(start, end + 1) : stripped;
+}
+
+export function parseStructuredOutput(text: string, schema: JsonSchema): StructuredOutputResult {
+    const jsonText = extractJsonText(text);
+    if (!jsonText) {
+        return { errors: ['The response was empty.'] };
+    }
+    let value: unknown;
+    try {
+        value = JSON.parse(jsonText);
+    } catch (error) {
+        return { errors: [`The response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+    const errors = validateJsonSchema(value, schema);
+    return errors.length > 0 ? { errors } : { value, errors };
+}
+
+function getJsonType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+// Returns one message per violation, with the JSON path of the value, e.g. "annotations.title must be a string."
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '(root)'): string[] {
+    const errors: string[] = [];
+    const actualType = getJsonType(value);
+    if (schema.type && schema.type !== actualType && !(schema.type === 'number' && actualType === 'integer')) {
+        errors.push(`${path} must be ${schema.type === 'array' || schema.type === 'object' || schema.type === 'integer' ? 'an' : 'a'} ${schema.type}.`);
+        return errors;
+    }
+    if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+        errors.push(`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}.`);
+    }
+    if (actualType === 'object') {
+        const objectValue = value as Record<string, unknown>;
+        const childPath = (key: string) => path === '(root)' ? key : `${path}.${key}`;
+        for (const key of schema.required || []) {
+            if (!(key in objectValue)) errors.push(`${childPath(key)} is missing.`);
+        }
+        for (const [key, childValue] of Object.entries(objectValue)) {
+            const propertySchema = schema.properties?.[key];
+            if (propertySchema) {
+                errors.push(...validateJsonSchema(childValue, propertySchema, childPath(key)));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${childPath(key)} is not allowed.`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateJsonSchema(childValue, schema.additionalProperties, childPath(key)));
+            }
+        }
+    }
+    if (actualType === 'array' && schema.items) {
+        (value as unknown[]).forEach((item, index) => {
+            errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${index}]`));
+        });
+    }
+    return errors;
+}
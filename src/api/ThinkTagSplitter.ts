@@ -0,0 +1,63 @@
+// src/api/ThinkTagSplitter.ts
+// Local reasoning models (DeepSeek R1, Qwen3, QwQ, ...) write their reasoning into the answer text,
+// wrapped in <think>...</think>. This separates it from the answer while streaming; tags may be split across chunks.
+
+export interface SplitText {
+    content: string;
+    reasoning: string;
+}
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+export class ThinkTagSplitter {
+    private inReasoning = false;
+    private buffer = '';
+
+    public push(chunk: string): SplitText {
+        this.buffer += chunk;
+        const result: SplitText = { content: '', reasoning: '' };
+
+        while (this.buffer.length > 0) {
+            const tag = this.inReasoning ? CLOSE_TAG : OPEN_TAG;
+            const tagIndex = this.buffer.indexOf(tag);
+            if (tagIndex !== -1) {
+                this.append(result, this.buffer.substring(0, tagIndex));
+                this.buffer = this.buffer.substring(tagIndex + tag.length);
+                this.inReasoning = !this.inReasoning;
+                continue;
+            }
+            // Hold back the start of a tag that may be completed by the next chunk
+            const heldBackLength = this.partialTagLength(tag);
+            this.append(result, this.buffer.substring(0, this.buffer.length - heldBackLength));
+            this.buffer = this.buffer.substring(this.buffer.length - heldBackLength);
+            break;
+        }
+        return result;
+    }
+
+    // Returns whatever was held back at the end of the stream
+    public flush(): SplitText {
+        const result: SplitText = { content: '', reasoning: '' };
+        this.append(result, this.buffer);
+        this.buffer = '';
+        return result;
+    }
+
+    private append(result: SplitText, text: string): void {
+        if (this.inReasoning) {
+            result.reasoning += text;
+        } else {
+            result.content += text;
+        }
+    }
+
+    private partialTagLength(tag: string): number {
+        for (let length = Math.min(tag.length - 1, this.buffer.length); length > 0; length--) {
+            if (this.buffer.endsWith(tag.substring(0, length))) {
+                return length;
+            }
+        }
+        return 0;
+    }
+}
@@ -0,0 +1,72 @@
+// src/api/TokenEstimator.ts
+// Rough token counts for planning what fits into a model's context window. The tokenizers differ per provider
+// and none of them is available offline, so text is estimated from its length with ratios measured on typical
+// English and Markdown, and images with the fixed or typical cost each API documents. Reported usage can
+// calibrate the estimate (see calibration) for the model that is actually used.
+
+import { McpTool } from '../types/mcp';
+import { LLMProviderType, OpenAIMessage } from './LLMProvider';
+import { getMessageImageUrls, getMessageText } from './MessageContent';
+
+// Characters per token for Latin-script text
+const CHARACTERS_PER_TOKEN: Record<LLMProviderType, number> = {
+    openai: 4,
+    anthropic: 3.5,
+    google: 4,
+    cohere: 4,
+    ollama: 3.5, // Most local models use Llama or Qwen tokenizers, which split Markdown more finely
+    replay: 4,
+};
+
+// Per image: a 1024px image in high detail for OpenAI, about 1.15 megapixels for Anthropic, Gemini's flat
+// rate per image, and a typical CLIP-style encoder for local models
+const TOKENS_PER_IMAGE: Record<LLMProviderType, number> = {
+    openai: 765,
+    anthropic: 1600,
+    google: 258,
+    cohere: 1600,
+    ollama: 576,
+    replay: 765,
+};
+
+// Role markers and separators the chat templates add around each message
+const TOKENS_PER_MESSAGE = 4;
+
+// Japanese, Chinese and Korean text takes about one token per character in every tokenizer
+const DENSE_SCRIPT_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+export class TokenEstimator {
+    private providerType: LLMProviderType;
+    private calibration: number;
+
+    // calibration multiplies every estimate, e.g. 1.2 if the API reported 20% more input tokens than estimated
+    constructor(providerType: LLMProviderType, calibration = 1) {
+        this.providerType = providerType;
+        this.calibration = calibration;
+    }
+
+    public estimateText(text: string): number {
+        if (!text) return 0;
+        const denseCharacters = text.match(DENSE_SCRIPT_PATTERN)?.length || 0;
+        const otherCharacters = text.length - denseCharacters;
+        return Math.ceil((denseCharacters + otherCharacters / CHARACTERS_PER_TOKEN[this.providerType]) * this.calibration);
+    }
+
+    public estimateMessage(message: OpenAIMessage): number {
+        let tokens = TOKENS_PER_MESSAGE + this.estimateText(getMessageText(message.content));
+        tokens += getMessageImageUrls(message.content).length * TOKENS_PER_IMAGE[this.providerType];
+        for (const toolCall of message.tool_calls || []) {
+            tokens += this.estimateText(toolCall.function.name) + this.estimateText(toolCall.function.arguments) + TOKENS_PER_MESSAGE;
+        }
+        return tokens;
+    }
+
+    public estimateMessages(messages: OpenAIMessage[]): number {
+        return messages.reduce((total, message) => total + this.estimateMessage(message), 0);
+    }
+
+    // Tool definitions are sent with every request and count towards the context window
+    public estimateTools(tools: McpTool[]): number {
+        return tools.reduce((total, tool) => total + this.estimateText(JSON.stringify(tool)), 0);
+    }
+}
@@ -0,0 +1,38 @@
+// src/api/ToolNameMapper.ts
+// Obsidian command IDs (e.g. "editor:save-file") are used as tool names, but most LLM APIs
+// only accept names matching a restricted pattern. This maps our names to API-safe names
+// for one request and translates the names in returned tool calls back.
+
+export class ToolNameMapper {
+    private apiNamesByName: Map<string, string> = new Map();
+    private namesByApiName: Map<string, string> = new Map();
+    private invalidCharacters: RegExp;
+    private maxLength: number;
+
+    constructor(invalidCharacters = /[^a-zA-Z0-9_-]/g, maxLength = 64) {
+        this.invalidCharacters = invalidCharacters;
+        this.maxLength = maxLength;
+    }
+
+    public toApiName(name: string): string {
+        const existing = this.apiNamesByName.get(name);
+        if (existing) return existing;
+
+        const baseName = name.replace(this.invalidCharacters, '_').substring(0, this.maxLength) || 'tool';
+        let apiName = baseName;
+        // Two different names can sanitize to the same value; keep them apart with a numeric suffix
+        let suffix = 2;
+        while (this.namesByApiName.has(apiName)) {
+            const suffixText = `_${suffix++}`;
+            apiName = `${baseName.substring(0, this.maxLength - suffixText.length)}${suffixText}`;
+        }
+
+        this.apiNamesByName.set(name, apiName);
+        this.namesByApiName.set(apiName, name);
+        return apiName;
+    }
+
+    public fromApiName(apiName: string): string {
+        return this.namesByApiName.get(apiName) || apiName;
+    }
+}
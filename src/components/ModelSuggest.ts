@@ -0,0 +1,40 @@
+import { AbstractInputSuggest, App } from 'obsidian';
+
+// Type-ahead list of the models a provider reported, attached to the free-text model field.
+// The field still accepts any value, so models missing from the list can be entered by hand.
+export class ModelSuggest extends AbstractInputSuggest<string> {
+    private models: string[] = [];
+    private inputEl: HTMLInputElement;
+
+    constructor(app: App, inputEl: HTMLInputElement, onSelectModel: (model: string) => void) {
+        super(app, inputEl);
+        this.inputEl = inputEl;
+        this.onSelect((model) => {
+            this.setValue(model);
+            onSelectModel(model);
+            this.close();
+        });
+    }
+
+    setModels(models: string[]): void {
+        this.models = models;
+    }
+
+    protected getSuggestions(query: string): string[] {
+        const normalizedQuery = query.trim().toLowerCase();
+        // An exact match means a model is already selected; show the full list again so it can be changed
+        if (!normalizedQuery || this.models.some(model => model.toLowerCase() === normalizedQuery)) {
+            return this.models;
+        }
+        // Match every search term anywhere in the ID, so "4o mini" finds "gpt-4o-mini"
+        const terms = normalizedQuery.split(/\s+/);
+        return this.models.filter(model => terms.every(term => model.toLowerCase().includes(term)));
+    }
+
+    renderSuggestion(model: string, el: HTMLElement): void {
+        el.setText(model);
+        if (model === this.inputEl.value) {
+            el.addClass('obsigent-model-suggestion-current');
+        }
+    }
+}
@@ -0,0 +1,121 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { LLM_PROVIDER_NAMES } from '../api/LLMProvider';
+import { RequestLogEntry, RequestOutcome, REQUEST_LOG_LEVEL_NAMES } from '../api/RequestInspection';
+import { RequestLog } from '../services/RequestLog';
+
+const OUTCOME_NAMES: Record<RequestOutcome, string> = {
+    pending: 'Running',
+    success: 'Done',
+    toolCalls: 'Tool calls',
+    error: 'Error',
+    aborted: 'Stopped',
+};
+
+// Lists the recent provider requests with their redacted details; updates while requests come in
+export class RequestInspectorModal extends Modal {
+    private requestLog: RequestLog;
+    private entriesEl!: HTMLElement;
+    private removeChangeListener: (() => void) | null = null;
+    private expandedEntryIds: Set<number> = new Set();
+
+    constructor(app: App, requestLog: RequestLog) {
+        super(app);
+        this.requestLog = requestLog;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.addClass('obsigent-request-inspector');
+        contentEl.createEl('h2', { text: 'Request Inspector' });
+        contentEl.createEl('p', {
+            text: `Log level: ${REQUEST_LOG_LEVEL_NAMES[this.requestLog.getLogLevel()]}. Change it in the Obsigent settings. API keys and other secrets are redacted.`,
+            cls: 'setting-item-description',
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Copy as JSON')
+                .onClick(async () => {
+                    await navigator.clipboard.writeText(this.requestLog.exportJson());
+                    new Notice('Request log copied to the clipboard.');
+                }))
+            .addButton(button => button
+                .setButtonText('Clear')
+                .setWarning()
+                .onClick(() => this.requestLog.clear()));
+
+        this.entriesEl = contentEl.createDiv({ cls: 'obsigent-request-inspector-entries' });
+        this.renderEntries();
+        this.removeChangeListener = this.requestLog.onChange(() => this.renderEntries());
+    }
+
+    onClose(): void {
+        this.removeChangeListener?.();
+        this.removeChangeListener = null;
+        this.contentEl.empty();
+    }
+
+    private renderEntries(): void {
+        this.entriesEl.empty();
+        const entries = this.requestLog.getEntries();
+        if (entries.length === 0) {
+            this.entriesEl.createEl('p', { text: 'No requests logged yet.', cls: 'setting-item-description' });
+            return;
+        }
+        entries.forEach(entry => this.renderEntry(entry));
+    }
+
+    private renderEntry(entry: RequestLogEntry): void {
+        const detailsEl = this.entriesEl.createEl('details', { cls: `obsigent-request-entry obsigent-request-${entry.outcome}` });
+        detailsEl.open = this.expandedEntryIds.has(entry.id);
+        detailsEl.addEventListener('toggle', () => {
+            if (detailsEl.open) this.expandedEntryIds.add(entry.id);
+            else this.expandedEntryIds.delete(entry.id);
+        });
+
+        const summaryEl = detailsEl.createEl('summary');
+        summaryEl.createSpan({ text: `#${entry.id} ${new Date(entry.startedAt).toLocaleTimeString()} ` });
+        summaryEl.createSpan({ text: `${entry.profileName} · ${entry.model || 'No model set'} ` });
+        summaryEl.createSpan({ text: OUTCOME_NAMES[entry.outcome], cls: 'obsigent-request-outcome' });
+        if (entry.durationMs !== undefined) summaryEl.createSpan({ text: ` ${(entry.durationMs / 1000).toFixed(1)} s` });
+
+        const rows: [string, string | undefined][] = [
+            ['Provider', LLM_PROVIDER_NAMES[entry.providerType] || entry.providerType],
+            ['Endpoint', entry.endpoint || 'Default'],
+            ['Status', entry.status !== undefined ? `HTTP ${entry.status}` : 'No response'],
+            ['Attempts', entry.attempts > 1 ? String(entry.attempts) : undefined],
+            ['Messages', String(entry.messageCount)],
+            ['Tools', String(entry.toolCount)],
+            ['Images', entry.imageCount > 0 ? String(entry.imageCount) : undefined],
+            ['Structured output', entry.responseFormat],
+            ['First output', entry.firstOutputMs !== undefined ? `${entry.firstOutputMs} ms` : undefined],
+            ['Duration', entry.durationMs !== undefined ? `${entry.durationMs} ms` : undefined],
+            ['Usage', entry.usage ? `${entry.usage.inputTokens} input, ${entry.usage.outputTokens} output, ${entry.usage.cacheReadTokens} cache read, ${entry.usage.cacheWriteTokens} cache write tokens` : undefined],
+            ['Finish reason', entry.finishReason],
+            ['Tool calls', entry.toolCalls?.join(', ')],
+            ['Error', entry.error],
+        ];
+        const tableEl = detailsEl.createEl('table', { cls: 'obsigent-request-details' });
+        for (const [name, value] of rows) {
+            if (value === undefined) continue;
+            const rowEl = tableEl.createEl('tr');
+            rowEl.createEl('th', { text: name });
+            rowEl.createEl('td', { text: value });
+        }
+
+        if (entry.messages) {
+            detailsEl.createEl('h4', { text: 'Messages' });
+            for (const message of entry.messages) {
+                const notes = [
+                    message.imageCount ? `${message.imageCount} image(s)` : '',
+                    message.toolCalls?.length ? `calls ${message.toolCalls.join(', ')}` : '',
+                ].filter(note => note).join(', ');
+                detailsEl.createEl('pre', { text: `[${message.role}${notes ? `, ${notes}` : ''}] ${message.content}`, cls: 'obsigent-request-content' });
+            }
+        }
+        if (entry.responseText) {
+            detailsEl.createEl('h4', { text: 'Response' });
+            detailsEl.createEl('pre', { text: entry.responseText, cls: 'obsigent-request-content' });
+        }
+    }
+}
@@ -0,0 +1,25 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+import { getImageMediaType } from '../api/MessageContent';
+
+// Picks an image from the vault to attach to the next chat message
+export class VaultImageSuggestModal extends FuzzySuggestModal<TFile> {
+    private onChooseImage: (file: TFile) => void;
+
+    constructor(app: App, onChooseImage: (file: TFile) => void) {
+        super(app);
+        this.onChooseImage = onChooseImage;
+        this.setPlaceholder('Attach an image from the vault...');
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(file => !!getImageMediaType(file.extension));
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile): void {
+        this.onChooseImage(file);
+    }
+}
@@ -3,16 +3,32 @@
 
 declare const default_api: unknown; // Declare default_api as unknown initially
 
-import { Plugin, WorkspaceLeaf, App, Notice } from 'obsidian'; // Added Notice
+import { Plugin, WorkspaceLeaf, App, Notice, normalizePath } from 'obsidian'; // Added Notice
 import { ObsigentSettingTab } from './settings';
-import { ChatView, CHAT_VIEW_TYPE } from './views/ChatView';
+import { ChatView, CHAT_VIEW_TYPE, ApiRequestInfo } from './views/ChatView';
 import { OpenAIProvider, OpenAIMessage } from './api/OpenAIProvider'; // Removed OpenAIToolCall
 import { OllamaProvider } from './api/OllamaProvider';
 import { AnthropicProvider } from './api/AnthropicProvider';
-import { LLMProvider, LLMProviderType, ProviderSettings, StreamCallbacks, LLM_PROVIDER_NAMES, ToolCall } from './api/LLMProvider'; // Added ToolCall, LLM_PROVIDER_NAMES
+import { GoogleProvider } from './api/GoogleProvider';
+import { CohereProvider } from './api/CohereProvider';
+import { ReplayProvider } from './api/ReplayProvider';
+import { ALL_LLM_PROVIDERS, LLMProvider, LLMProviderType, LLMTask, LLM_PROVIDER_NAMES, TaskRoute, findProviderProfile, ProviderCapabilities, ProviderProfile, ProviderSettings, StreamCallbacks, isFallbackError, TokenUsage, ToolCall, ValidationReport } from './api/LLMProvider'; // Added ToolCall
 import { McpService } from './services/McpService';
 import { LocalToolService } from './services/LocalToolService';
-import { McpServer, McpMarketplaceCatalog, CachedCommandMcpDetails, McpToolCallResult, McpToolSchema, McpToolAnnotations, GeneratedCommandMcpDetails } from './types/mcp'; 
+import { CostTracker } from './services/CostTracker';
+import { ProviderRecorder } from './services/ProviderRecorder';
+import { DEFAULT_REQUEST_LOG_LEVEL, RequestLog } from './services/RequestLog';
+import { SecretStore } from './services/SecretStore';
+import { RequestInspectorModal } from './components/RequestInspectorModal';
+import { DEFAULT_MODEL_PRICING, ModelPrice } from './api/ModelPricing';
+import { DEFAULT_MAX_REQUEST_ATTEMPTS, RetryInfo } from './api/RequestRetry';
+import { buildMessageContent, getMessageImageUrls, getMessageText } from './api/MessageContent';
+import { StructuredOutputFormat, parseStructuredOutput } from './api/StructuredOutput';
+import { RequestLogLevel } from './api/RequestInspection';
+import { getSamplingParameters } from './api/SamplingParameters';
+import { TokenEstimator } from './api/TokenEstimator';
+import { buildContextHistory, getReservedOutputTokens } from './api/ContextHistory';
+import { McpServer, McpTool, McpMarketplaceCatalog, CachedCommandMcpDetails, McpToolCallResult, McpToolSchema, McpToolAnnotations, GeneratedCommandMcpDetails, GENERATED_COMMAND_MCP_DETAILS_SCHEMA } from './types/mcp'; 
 
 export interface ObsigentPluginSettings {
   // Old global settings (will be deprecated or used as fallback initially)
@@ -20,9 +36,23 @@ export interface ObsigentPluginSettings {
   defaultModel?: string; 
   apiEndpoint?: string; 
 
-  // New provider-specific settings
-  selectedProvider: LLMProviderType;
-  providerSettings: Partial<Record<LLMProviderType, ProviderSettings>>;
+  // Named provider profiles; the active one is used for the chat and command analysis
+  providerProfiles: ProviderProfile[];
+  activeProfileId: string;
+  taskRouting: Partial<Record<LLMTask, TaskRoute>>;
+  fallbackProfileIds: string[]; // Tried in order when the chat provider is unreachable, failing or rejects the key
+  maxRequestAttempts: number; // Including the first request, for rate limits and transient failures
+  recordProviderRequests: boolean; // Writes every provider request and response to a fixture file, see ProviderRecorder
+  requestLogLevel: RequestLogLevel; // What the request inspector and the console show of provider requests
+
+  // Before profiles there was one settings slot per provider type; migrated to profiles in loadSettings
+  selectedProvider?: LLMProviderType;
+  providerSettings?: Partial<Record<LLMProviderType, ProviderSettings>>;
+
+  // Cost tracking
+  modelPricing: ModelPrice[];
+  monthlySpend: Record<string, number>; // USD per month, keyed by "YYYY-MM"
+  monthlySpendingCap?: number; // USD; new requests are blocked once the month's spend reaches it
 
   // MCP settings - supporting multiple servers
   mcpServers: McpServer[];
@@ -31,36 +61,60 @@ export interface ObsigentPluginSettings {
   githubStarsCache?: { [url: string]: { stars: number; timestamp: number } }; 
 }
 
+// Settings a new profile of each provider type starts with
+const DEFAULT_PROVIDER_SETTINGS: Record<LLMProviderType, ProviderSettings> = {
+  openai: {
+    apiKey: '',
+    apiEndpoint: 'https://api.openai.com/v1/chat/completions',
+    defaultModel: 'gpt-3.5-turbo',
+  },
+  anthropic: {
+    apiKey: '',
+    defaultModel: 'claude-3-haiku-20240307',
+    apiEndpoint: 'https://api.anthropic.com',
+  },
+  google: {
+    apiKey: '',
+    defaultModel: 'gemini-pro',
+    apiEndpoint: 'https://generativelanguage.googleapis.com',
+  },
+  cohere: {
+    apiKey: '',
+    defaultModel: 'command',
+    apiEndpoint: 'https://api.cohere.com',
+  },
+  ollama: {
+    apiEndpoint: 'http://localhost:11434/api/chat',
+    defaultModel: 'llama3',
+  },
+  replay: {
+    defaultModel: 'replay',
+    fixturePath: '',
+  },
+};
+
 const DEFAULT_SETTINGS: ObsigentPluginSettings = {
   apiKey: '', 
   defaultModel: 'gpt-3.5-turbo', 
   apiEndpoint: 'https://api.openai.com/v1/chat/completions', 
 
-  selectedProvider: 'openai',
-  providerSettings: {
-    openai: {
-      apiKey: '',
-      apiEndpoint: 'https://api.openai.com/v1/chat/completions',
-      defaultModel: 'gpt-3.5-turbo',
-    },
-    anthropic: {
-        apiKey: '',
-        defaultModel: 'claude-3-haiku-20240307', 
-        apiEndpoint: 'https://api.anthropic.com', 
+  providerProfiles: [
+    {
+      id: 'openai',
+      name: LLM_PROVIDER_NAMES.openai,
+      providerType: 'openai',
+      settings: { ...DEFAULT_PROVIDER_SETTINGS.openai },
     },
-    google: {
-        apiKey: '',
-        defaultModel: 'gemini-pro',
-    },
-    cohere: {
-        apiKey: '',
-        defaultModel: 'command',
-    },
-    ollama: {
-        apiEndpoint: 'http://localhost:11434/api/chat', 
-        defaultModel: 'llama3', 
-    }
-  },
+  ],
+  activeProfileId: 'openai',
+  taskRouting: {},
+  fallbackProfileIds: [],
+  maxRequestAttempts: DEFAULT_MAX_REQUEST_ATTEMPTS,
+  recordProviderRequests: false,
+  requestLogLevel: DEFAULT_REQUEST_LOG_LEVEL,
+
+  modelPricing: DEFAULT_MODEL_PRICING.map(price => ({ ...price })),
+  monthlySpend: {},
   mcpServers: [],
   mcpMarketplaceCache: undefined, 
   mcpMarketplaceCacheTimestamp: undefined, 
@@ -69,6 +123,42 @@ const DEFAULT_SETTINGS: ObsigentPluginSettings = {
 
 const COMMAND_CACHE_FILE_NAME = 'command-mcp-cache.json'; // Added for cache file
 
+const NO_CHAT_PROVIDER_MESSAGE = 'No usable provider profile for the chat. Check the provider profiles and task routing in the Obsigent settings.';
+
+// Reported by the error placeholder providers, so callers never send tools or images to them
+const NO_PROVIDER_CAPABILITIES: ProviderCapabilities = {
+  tools: false,
+  vision: false,
+  streaming: false,
+  jsonMode: false,
+  reasoning: false,
+  contextWindow: 0,
+};
+
+// What a task runs on after routing: the provider, the settings to pass it and the resulting profile and model
+export interface TaskProvider {
+  provider: LLMProvider;
+  settings: ObsigentPluginSettings; // Carries the routed model; providers read the model from their profile
+  profile: ProviderProfile;
+  model: string;
+}
+
+// How full the chat model's context window was at the last request, for the meter in the chat view
+export interface ChatContextUsage {
+  usedTokens: number; // Reported by the provider once it answers, estimated before
+  contextWindow: number;
+  droppedMessages: number;
+  compactedToolResults: number;
+}
+
+// Rounds of tool calls per user message. Each round is another billed request, and a model forced to call tools
+// (tool choice "required" or a specific function) would otherwise never stop.
+const MAX_TOOL_ROUNDS = 10;
+
+// Bounds of the factor between reported and estimated input tokens; anything outside is a miscount, not the tokenizer
+const MIN_TOKEN_CALIBRATION = 0.5;
+const MAX_TOKEN_CALIBRATION = 2.5;
+
 // Interim type for validation purposes
 interface PartialGeneratedCommandMcpDetailsForValidation {
   description?: unknown;
@@ -91,7 +181,13 @@ export default class ObsigentPluginCore {
   chatHistory: OpenAIMessage[] = []; 
   mcpService!: McpService; 
   localToolService!: LocalToolService;
+  costTracker!: CostTracker;
+  providerRecorder!: ProviderRecorder;
+  requestLog!: RequestLog;
+  secretStore!: SecretStore;
   activeLLMProvider!: LLMProvider; 
+  private tokenCalibration: Record<string, number> = {}; // Keyed by "profileId:model", see buildChatRequestHistory
+  private chatContextUsage: ChatContextUsage | null = null;
   private commandGenerationStatus: Record<string, boolean> = {}; // Added for per-command generation tracking
 
   async runCommandInTerminal(command: string, explanation: string, isBackground: boolean): Promise<{ stdout?: string; stderr?: string; error?: unknown; terminalId?: string }> {
@@ -124,6 +220,17 @@ export default class ObsigentPluginCore {
       this.saveSettings();
     });
 
+    this.costTracker = new CostTracker(this);
+    this.providerRecorder = new ProviderRecorder(this);
+    this.requestLog = new RequestLog(this);
+
+    // API keys live in the secret store; keys saved in data.json by earlier versions are moved there
+    this.secretStore = new SecretStore(this);
+    await this.secretStore.load();
+    if (await this.secretStore.migratePlainTextApiKeys()) {
+      await this.saveSettings();
+    }
+
     // Initialize LocalToolService first
     this.localToolService = new LocalToolService(this.app, this);
 
@@ -149,7 +256,7 @@ export default class ObsigentPluginCore {
         this.chatViewInstance = new ChatView(leaf, this);
         this.chatHistory.forEach(msg => {
             if (this.chatViewInstance && msg.role !== 'system' && msg.content) {
-                 this.chatViewInstance.displayMessage(msg.content as string, msg.role === 'user' ? 'user' : 'ai');
+                 this.chatViewInstance.displayMessage(getMessageText(msg.content), msg.role === 'user' ? 'user' : 'ai', { images: getMessageImageUrls(msg.content) });
             }
         });
         return this.chatViewInstance;
@@ -167,6 +274,14 @@ export default class ObsigentPluginCore {
         this.activateChatView();
       },
     });
+
+    this.plugin.addCommand({
+      id: 'open-obsigent-request-inspector',
+      name: 'Open Request Inspector',
+      callback: () => {
+        new RequestInspectorModal(this.app, this.requestLog).open();
+      },
+    });
     
     this.chatHistory.push({ role: 'system', content: 'You are a helpful assistant integrated into Obsidian.' });
   }
@@ -195,6 +310,65 @@ export default class ObsigentPluginCore {
     return this.activeLLMProvider;
   }
 
+  // Resolves a task's route. Tasks without a route use the active profile, routes without a model the profile's
+  // default model. Returns null if the resulting profile has no usable provider.
+  getTaskProvider(task: LLMTask): TaskProvider | null {
+    const route = this.settings.taskRouting?.[task];
+    const profile = (route?.profileId && findProviderProfile(this.settings, route.profileId)) || this.getActiveProfile();
+    if (!profile) return null;
+    const provider = this.activeLLMProvider?.profileId === profile.id ? this.activeLLMProvider : this.createProviderForProfile(profile);
+    if (provider.providerName.startsWith("error_")) return null;
+
+    const model = route?.model?.trim() || profile.settings.defaultModel || '';
+    if (model === (profile.settings.defaultModel || '')) {
+      return { provider, settings: this.settings, profile, model };
+    }
+    // A shallow copy is enough, only the routed profile's settings differ
+    const routedProfile: ProviderProfile = { ...profile, settings: { ...profile.settings, defaultModel: model } };
+    const settings: ObsigentPluginSettings = {
+      ...this.settings,
+      providerProfiles: this.settings.providerProfiles.map(other => other.id === profile.id ? routedProfile : other),
+    };
+    return { provider, settings, profile: routedProfile, model };
+  }
+
+  // Capabilities of the model a task is routed to; an unusable route supports nothing
+  getTaskCapabilities(task: LLMTask): ProviderCapabilities {
+    const taskProvider = this.getTaskProvider(task);
+    if (!taskProvider) return NO_PROVIDER_CAPABILITIES;
+    return taskProvider.provider.getCapabilities(taskProvider.settings);
+  }
+
+  // e.g. "LM Studio · qwen3-8b" (profile name and model), for the chat view
+  getTaskModelLabel(task: LLMTask): string {
+    const taskProvider = this.getTaskProvider(task);
+    if (!taskProvider) return 'No provider profile';
+    return `${taskProvider.profile.name} · ${taskProvider.model || 'No model set'}`;
+  }
+
+  // Adds the "API Request" row for one chat request and returns the usage handler that fills in its tokens and cost
+  private async startApiRequestRow(chatView: ChatView, taskProvider: TaskProvider): Promise<(usage: TokenUsage) => Promise<void>> {
+    const apiRequestInfo: ApiRequestInfo = { request: `${taskProvider.profile.name} · ${taskProvider.model || 'No model set'}` };
+    const apiRequestEl = await chatView.displayMessage('', 'api_req_started', { apiReqInfo: apiRequestInfo });
+
+    return async (usage: TokenUsage) => {
+      apiRequestInfo.usage = usage;
+      apiRequestInfo.cost = await this.costTracker.recordUsage(taskProvider.profile.providerType, taskProvider.model, usage, true);
+      if (apiRequestEl) chatView.updateApiRequestInfo(apiRequestEl, apiRequestInfo);
+    };
+  }
+
+  // Tools are only sent to models that can call them; others would ignore or reject the definitions
+  private getToolsForTask(taskProvider: TaskProvider) {
+    return taskProvider.provider.getCapabilities(taskProvider.settings).tools ? this.localToolService.getLocalTools() : [];
+  }
+
+  // Runs the connection test of a profile against the current settings
+  async testProviderConnection(profileId: string): Promise<ValidationReport> {
+    // Test requests are not part of any conversation, so they are never recorded
+    return this.createProviderForProfile(findProviderProfile(this.settings, profileId), false).validateSettings(this.settings);
+  }
+
   isCommandGenerationInProgress(commandId: string): boolean {
     return !!this.commandGenerationStatus[commandId];
   }
@@ -207,55 +381,92 @@ export default class ObsigentPluginCore {
     }
   }
 
-  updateActiveLLMProvider() {
-    const providerType = this.settings.selectedProvider;
+  // The profile used for the chat; falls back to the first profile if the active one was deleted
+  getActiveProfile(): ProviderProfile | undefined {
+    const profiles = this.settings.providerProfiles || [];
+    return profiles.find(profile => profile.id === this.settings.activeProfileId) || profiles[0];
+  }
+
+  // Creates a provider instance that reads its settings from the given profile on each request.
+  // Its requests show up in the request inspector, and in recording mode they also end up in the session's fixture file.
+  createProviderForProfile(profile: ProviderProfile | undefined, record: boolean = this.settings.recordProviderRequests): LLMProvider {
+    const provider = this.createUnrecordedProvider(profile);
+    if (provider.providerName.startsWith("error_")) {
+      return provider;
+    }
+    // Replays have nothing worth recording
+    const recordedProvider = record && provider.providerName !== 'replay' ? this.providerRecorder.wrap(provider) : provider;
+    return this.requestLog.wrap(recordedProvider);
+  }
+
+  private createUnrecordedProvider(profile: ProviderProfile | undefined): LLMProvider {
+    if (!profile) {
+        return {
+            providerName: "error_no_profile",
+            profileId: '',
+            getCapabilities: () => NO_PROVIDER_CAPABILITIES,
+            validateSettings: async () => ({
+                ok: false,
+                steps: [{ name: 'Configuration', status: 'fail', message: 'No provider profile is configured.' }],
+            }),
+            generateResponse: async (_m, _s, callbacks, _at, _ac) => {
+                callbacks.onError("No provider profile is configured. Add one in the Obsigent settings.");
+            }
+        };
+    }
+    const providerType = profile.providerType;
     switch (providerType) {
         case 'openai':
-            this.activeLLMProvider = new OpenAIProvider();
-            break;
+            return new OpenAIProvider(profile.id);
         case 'ollama':
-            this.activeLLMProvider = new OllamaProvider();
-            break;
+            return new OllamaProvider(profile.id);
         case 'anthropic':
-            this.activeLLMProvider = new AnthropicProvider();
-            break;
+            return new AnthropicProvider(profile.id);
         case 'google':
-        case 'cohere': { // Added braces
-            const providerFriendlyName = LLM_PROVIDER_NAMES[providerType] || providerType;
-            console.warn(`Provider "${providerFriendlyName}" is selected but not yet implemented in Obsigent.`);
-            this.activeLLMProvider = {
-                providerName: "error_unimplemented", 
-                generateResponse: async (_m, _s, callbacks, _at, _ac) => {
-                    callbacks.onError(`The selected LLM provider "${providerFriendlyName}" is not yet supported by Obsigent. Please choose a different provider or wait for an update.`);
-                }
-            };
-            break;
-        }
+            return new GoogleProvider(profile.id);
+        case 'cohere':
+            return new CohereProvider(profile.id);
+        case 'replay':
+            return new ReplayProvider(profile.id, path => this.app.vault.adapter.read(normalizePath(path)));
         default: { // Added braces
-            console.error(`Unknown or unhandled provider type "${providerType}" selected. This should not happen. Please check Obsigent settings or report a bug.`);
-            this.activeLLMProvider = {
+            console.error(`Unknown or unhandled provider type "${providerType}" in profile "${profile.name}". This should not happen. Please check Obsigent settings or report a bug.`);
+            return {
                 providerName: "error_unknown_type", 
+                profileId: profile.id,
+                getCapabilities: () => NO_PROVIDER_CAPABILITIES,
+                validateSettings: async () => ({
+                    ok: false,
+                    steps: [{ name: 'Configuration', status: 'fail', message: `Unknown LLM provider type "${providerType}".` }],
+                }),
                 generateResponse: async (_m, _s, callbacks, _at, _ac) => {
                     callbacks.onError(`An unknown LLM provider type ("${providerType}") was selected. Please check Obsigent settings or report this as a bug.`);
                 }
             };
-            break;
         }
     }
-    if (!this.activeLLMProvider) { 
-        console.error("Critical: activeLLMProvider was not set after provider selection logic. This indicates a programming error. Defaulting to a critical error provider.");
-        this.activeLLMProvider = {
-            providerName: "error_critical_init", 
-            generateResponse: async (_m, _s, callbacks, _at, _ac) => {
-                callbacks.onError("A critical error occurred while initializing the LLM provider. Please check plugin settings or report this issue.");
-            }
-        };
-    }
-    console.log(`Active LLM Provider set to: ${this.activeLLMProvider.providerName}`);
+  }
+
+  updateActiveLLMProvider() {
+    const profile = this.getActiveProfile();
+    this.activeLLMProvider = this.createProviderForProfile(profile);
+    console.log(`Active LLM Provider set to: ${this.activeLLMProvider.providerName} (profile "${profile?.name ?? 'none'}")`);
+  }
+
+  // Adds a profile with the provider type's default settings and returns it
+  addProviderProfile(providerType: LLMProviderType, name: string): ProviderProfile {
+    const profile: ProviderProfile = {
+      id: `${providerType}_${Date.now()}`,
+      name,
+      providerType,
+      settings: { ...DEFAULT_PROVIDER_SETTINGS[providerType] },
+    };
+    this.settings.providerProfiles.push(profile);
+    return profile;
   }
 
   onunload() {
     console.log('ObsigentPluginCore unloaded');
+    this.costTracker?.flush();
     this.plugin.app.workspace.detachLeavesOfType(CHAT_VIEW_TYPE);
   }
 
@@ -270,8 +481,164 @@ export default class ObsigentPluginCore {
     );
   }
 
-  async handleUserMessage(messageText: string, chatView: ChatView, abortController: AbortController) {
-    this.chatHistory.push({ role: 'user', content: messageText });
+  // Chat providers in the order they are tried: the chat route, then the fallback profiles
+  private getChatProviderChain(): TaskProvider[] {
+    const chain: TaskProvider[] = [];
+    const chatProvider = this.getTaskProvider('chat');
+    if (chatProvider) chain.push(chatProvider);
+    for (const profileId of this.settings.fallbackProfileIds || []) {
+      const profile = findProviderProfile(this.settings, profileId);
+      if (!profile || chain.some(taskProvider => taskProvider.profile.id === profile.id)) continue;
+      const provider = this.createProviderForProfile(profile);
+      if (provider.providerName.startsWith("error_")) continue;
+      chain.push({ provider, settings: this.settings, profile, model: profile.settings.defaultModel || '' });
+    }
+    return chain;
+  }
+
+  // Sends chatHistory, trimmed to the model's context window, to the chat provider. If a request fails before
+  // producing any output, with an error another provider may not have (network, 5xx, auth), the same history goes
+  // to the next fallback profile, so the user does not have to resend the message. startAttempt prepares the chat view for a provider and returns its callbacks.
+  // toolRound is the number of tool rounds already run for the current user message.
+  private async generateChatResponse(chatView: ChatView, abortController: AbortController, startAttempt: (chatProvider: TaskProvider) => Promise<StreamCallbacks>, toolRound = 0): Promise<void> {
+    const chain = this.getChatProviderChain().map(chatProvider => toolRound > 0 ? this.withAutoToolChoice(chatProvider) : chatProvider);
+    if (chain.length === 0) {
+      chatView.displayMessage(NO_CHAT_PROVIDER_MESSAGE, 'error');
+      chatView.onGenerationFinished();
+      return;
+    }
+
+    for (let i = 0; i < chain.length; i++) {
+      const chatProvider = chain[i];
+      const nextProvider = chain[i + 1];
+      const unpricedModelWarning = this.costTracker.getUnpricedModelWarning(chatProvider.profile.providerType, chatProvider.model);
+      if (unpricedModelWarning) await chatView.displayMessage(unpricedModelWarning, 'system');
+      const callbacks = await startAttempt(chatProvider);
+      let producedOutput = false;
+      let fallbackReason: string | null = null;
+      const tools = this.getToolsForTask(chatProvider);
+      const { messages, recordUsage } = this.buildChatRequestHistory(chatProvider, tools);
+      chatView.refreshModelInfo();
+
+      await chatProvider.provider.generateResponse(
+        messages,
+        chatProvider.settings,
+        {
+          ...callbacks,
+          onUsage: (usage: TokenUsage) => {
+            recordUsage(usage);
+            chatView.refreshModelInfo();
+            callbacks.onUsage?.(usage);
+          },
+          onUpdate: (chunk: string, isFinal: boolean) => {
+            if (chunk) producedOutput = true;
+            callbacks.onUpdate(chunk, isFinal);
+          },
+          onReasoning: (reasoningChunk: string) => {
+            producedOutput = true;
+            callbacks.onReasoning?.(reasoningChunk);
+          },
+          onToolCall: async (toolCalls: ToolCall[]) => {
+            producedOutput = true;
+            await callbacks.onToolCall?.(toolCalls);
+          },
+          onError: (errorMsg: string, errorDetails?: unknown) => {
+            if (nextProvider && !producedOutput && !abortController.signal.aborted && isFallbackError(errorDetails)) {
+              fallbackReason = errorMsg;
+              return;
+            }
+            callbacks.onError(errorMsg, errorDetails);
+          },
+          onFinish: (reason?: string) => {
+            // The generation goes on with the next provider
+            if (fallbackReason === null) callbacks.onFinish(reason);
+          },
+        },
+        tools,
+        abortController
+      );
+
+      if (fallbackReason === null) return;
+      console.warn(`Obsigent: ${chatProvider.profile.name} failed (${fallbackReason}), falling back to ${nextProvider.profile.name}.`);
+      await chatView.displayMessage(`**${chatProvider.profile.name}** failed: ${fallbackReason}\n\nAnswering with **${nextProvider.profile.name}** instead.`, 'system');
+    }
+  }
+
+  // A forced tool choice applies to the first request of a user message only. Once the model has called a tool
+  // it may answer, otherwise it would have to call tools on every request.
+  private withAutoToolChoice(chatProvider: TaskProvider): TaskProvider {
+    const toolChoice = chatProvider.profile.settings.toolChoice;
+    if (toolChoice !== 'required' && toolChoice !== 'function') return chatProvider;
+    const profile: ProviderProfile = { ...chatProvider.profile, settings: { ...chatProvider.profile.settings, toolChoice: 'auto' } };
+    const settings: ObsigentPluginSettings = {
+      ...chatProvider.settings,
+      providerProfiles: chatProvider.settings.providerProfiles.map(other => other.id === profile.id ? profile : other),
+    };
+    return { ...chatProvider, settings, profile };
+  }
+
+  // chatHistory grows with every turn and every tool output, so the copy sent to the model is trimmed to its
+  // context window (see ContextHistory). The estimate is calibrated per model with the input tokens the provider
+  // reports; the returned recordUsage feeds those in.
+  private buildChatRequestHistory(chatProvider: TaskProvider, tools: McpTool[]): { messages: OpenAIMessage[]; recordUsage: (usage: TokenUsage) => void } {
+    const providerType = chatProvider.profile.providerType;
+    const calibrationKey = `${chatProvider.profile.id}:${chatProvider.model}`;
+    const contextWindow = chatProvider.provider.getCapabilities(chatProvider.settings).contextWindow;
+    const maxTokens = getSamplingParameters(providerType, chatProvider.profile.settings.sampling).maxTokens;
+    const estimator = new TokenEstimator(providerType, this.tokenCalibration[calibrationKey] || 1);
+    const history = buildContextHistory(this.chatHistory, tools, estimator, contextWindow, getReservedOutputTokens(contextWindow, maxTokens));
+    if (history.droppedMessages > 0 || history.compactedToolResults > 0) {
+      console.log(`Obsigent: Trimmed the chat history to about ${history.estimatedTokens} tokens for ${chatProvider.profile.name}: ${history.droppedMessages} messages dropped, ${history.compactedToolResults} tool outputs shortened.`);
+    }
+
+    const usage: ChatContextUsage = {
+      usedTokens: history.estimatedTokens,
+      contextWindow,
+      droppedMessages: history.droppedMessages,
+      compactedToolResults: history.compactedToolResults,
+    };
+    this.chatContextUsage = usage;
+
+    // Compared with the uncalibrated estimate, so the factor does not drift with its own earlier values
+    const uncalibratedEstimate = new TokenEstimator(providerType);
+    const estimatedTokens = uncalibratedEstimate.estimateMessages(history.messages) + uncalibratedEstimate.estimateTools(tools);
+    const recordUsage = (tokenUsage: TokenUsage) => {
+      const inputTokens = tokenUsage.inputTokens + tokenUsage.cacheReadTokens + tokenUsage.cacheWriteTokens;
+      if (inputTokens <= 0 || estimatedTokens <= 0) return;
+      usage.usedTokens = inputTokens;
+      const ratio = Math.min(MAX_TOKEN_CALIBRATION, Math.max(MIN_TOKEN_CALIBRATION, inputTokens / estimatedTokens));
+      const previous = this.tokenCalibration[calibrationKey];
+      // Averaged with the previous factor, since a single request with few tokens is a noisy sample
+      this.tokenCalibration[calibrationKey] = previous ? (previous + ratio) / 2 : ratio;
+    };
+    return { messages: history.messages, recordUsage };
+  }
+
+  // Null until the first chat request
+  getChatContextUsage(): ChatContextUsage | null {
+    return this.chatContextUsage;
+  }
+
+  // images are data URLs of the images attached to the message
+  async handleUserMessage(messageText: string, chatView: ChatView, abortController: AbortController, images: string[] = []) {
+    if (this.costTracker.isSpendingCapReached()) {
+      chatView.displayMessage(this.costTracker.getSpendingCapMessage(), 'error');
+      chatView.onGenerationFinished();
+      return;
+    }
+
+    if (this.getChatProviderChain().length === 0) {
+      chatView.displayMessage(NO_CHAT_PROVIDER_MESSAGE, 'error');
+      chatView.onGenerationFinished();
+      return;
+    }
+
+    this.chatHistory.push({ role: 'user', content: buildMessageContent(messageText, images) });
+
+    // Accumulates the streamed assistant text so it can be rendered and stored in chatHistory
+    let streamedContent = '';
+    // Reasoning is only displayed; it is never added to chatHistory
+    let reasoningContent = '';
 
     const streamCallbacks: StreamCallbacks = {
       onUpdate: (chunk: string, isFinal: boolean) => {
@@ -289,93 +656,47 @@ export default class ObsigentPluginCore {
         chatView.onGenerationFinished();
       },
       onToolCall: async (toolCalls: ToolCall[]) => {
-        if (!toolCalls || toolCalls.length === 0) return;
-        console.log("Tool call requested:", toolCalls);
-
-        const toolResultMessages: OpenAIMessage[] = []; // Changed name for clarity
-
-        for (const toolCall of toolCalls) {
-            const toolName = toolCall.function.name;
-            const toolArgs = JSON.parse(toolCall.function.arguments);
-
-            chatView.displayMessage(`Running tool: ${toolName} with arguments: ${JSON.stringify(toolArgs, null, 2)}`, 'tool', {
-                toolDetails: { name: toolName, content: `Args: ${JSON.stringify(toolArgs, null, 2)}` }
-            });
-
-            const localTool = this.localToolService.getLocalTools().find(t => t.name === toolName);
-            if (localTool) {
-                const result: McpToolCallResult = await this.localToolService.executeTool(toolName, toolArgs);
-                
-                // Convert McpToolCallResult.content to a string for OpenAIMessage
-                // MCP allows multiple content blocks, OpenAI tool message expects a single string.
-                // We'll join them or take the first text block.
-                let resultContentString = "";
-                if (result.content && result.content.length > 0) {
-                    resultContentString = result.content.map(c => c.text).join("\n"); 
-                }
-                if (result.isError) {
-                    resultContentString = `Error: ${resultContentString}`; // Prepend Error if isError is true
-                }
-
-                toolResultMessages.push({
-                    role: 'tool',
-                    tool_call_id: toolCall.id,
-                    content: resultContentString
-                });
-
-                if (result.isError) {
-                    chatView.displayMessage(`Error executing tool ${toolName}: ${resultContentString}`, 'error');
-                } else {
-                    // Optionally display success, but can be verbose.
-                    // chatView.displayMessage(`Tool ${toolName} executed.`, 'tool', { toolDetails: { name: toolName, content: resultContentString }});
-                }
-            } else {
-                const errorMessage = `Tool '${toolName}' is not a recognized local or Obsidian command.`;
-                toolResultMessages.push({
-                    role: 'tool',
-                    tool_call_id: toolCall.id,
-                    content: `Error: ${errorMessage}`
-                });
-                chatView.displayMessage(errorMessage, 'error');
-            }
-        }
-
-        this.chatHistory.push(...toolResultMessages);
-        this.continueGenerationWithTools(chatView, abortController);
+        if (activeStreamingMessageEl) chatView.finalizeReasoning(activeStreamingMessageEl);
+        await this.runToolCalls(toolCalls, streamedContent, chatView, abortController, 1);
       }
     };
 
     let activeStreamingMessageEl: HTMLDivElement | null = null;
     try {
-      activeStreamingMessageEl = await chatView.startStreamingResponse();
-      if (!activeStreamingMessageEl) {
-        throw new Error("Could not create streaming message element.");
-      }
+      await this.generateChatResponse(chatView, abortController, async (chatProvider: TaskProvider) => {
+        // The previous provider failed before answering, so its empty message makes room for the next one
+        if (activeStreamingMessageEl) chatView.discardStreamingResponse(activeStreamingMessageEl);
+        const recordUsage = await this.startApiRequestRow(chatView, chatProvider);
+        activeStreamingMessageEl = await chatView.startStreamingResponse();
+        if (!activeStreamingMessageEl) {
+          throw new Error("Could not create streaming message element.");
+        }
 
-      const toolsForProvider = this.localToolService.getLocalTools();
-      
-      // Create a new set of callbacks for this specific call, overriding onUpdate
-      const currentCallStreamCallbacks: StreamCallbacks = {
-          ...streamCallbacks, // Spread existing callbacks
-          onUpdate: async (chunk: string, isFinal: boolean) => { 
-            if (activeStreamingMessageEl) {
-              await chatView.updateStreamingResponse(activeStreamingMessageEl, chunk);
-              if (isFinal) {
-                await chatView.finalizeStreamingResponse(activeStreamingMessageEl, chunk);
-                this.chatHistory.push({ role: 'assistant', content: chunk });
-                // onGenerationFinished is called by the main onFinish or onError
+        // Create a new set of callbacks for this specific call, overriding onUpdate
+        const currentCallStreamCallbacks: StreamCallbacks = {
+            ...streamCallbacks, // Spread existing callbacks
+            onUsage: recordUsage,
+            onReasoning: (reasoningChunk: string) => {
+              reasoningContent += reasoningChunk;
+              if (activeStreamingMessageEl) chatView.updateReasoning(activeStreamingMessageEl, reasoningContent);
+            },
+            onRetry: (retry: RetryInfo) => {
+              if (activeStreamingMessageEl) chatView.showRetryStatus(activeStreamingMessageEl, retry);
+            },
+            onUpdate: async (chunk: string, isFinal: boolean) => { 
+              streamedContent += chunk;
+              if (activeStreamingMessageEl) {
+                await chatView.updateStreamingResponse(activeStreamingMessageEl, streamedContent);
+                if (isFinal) {
+                  await chatView.finalizeStreamingResponse(activeStreamingMessageEl, streamedContent);
+                  this.chatHistory.push({ role: 'assistant', content: streamedContent });
+                  // onGenerationFinished is called by the main onFinish or onError
+                }
               }
             }
-          }
-      };
-      
-      await this.activeLLMProvider.generateResponse(
-        this.chatHistory, 
-        this.settings, 
-        currentCallStreamCallbacks, 
-        toolsForProvider, 
-        abortController 
-      );
+        };
+        return currentCallStreamCallbacks;
+      });
     } catch (error: unknown) {
       const errorMessage = (error instanceof Error ? error.message : String(error));
       console.error("Error during LLM response generation or streaming setup:", errorMessage, error);
@@ -389,47 +710,149 @@ export default class ObsigentPluginCore {
     }
   }
 
-  async continueGenerationWithTools(chatView: ChatView, abortController: AbortController) {
+  // Executes the tool calls requested by the model, records them in chatHistory and continues the conversation.
+  // The assistant message carrying the tool_calls must precede the tool results, otherwise providers reject the history.
+  // round counts the tool rounds of the current user message, including this one.
+  private async runToolCalls(toolCalls: ToolCall[], assistantContent: string, chatView: ChatView, abortController: AbortController, round: number): Promise<void> {
+    if (!toolCalls || toolCalls.length === 0) return;
+    console.log("Tool call requested:", toolCalls);
+
+    this.chatHistory.push({ role: 'assistant', content: assistantContent || null, tool_calls: toolCalls });
+
+    const toolResultMessages: OpenAIMessage[] = []; // Changed name for clarity
+
+    // Tools that are not run still get a result, so every tool call in the history has one
+    let stopReason: string | null = null;
+    if (round > MAX_TOOL_ROUNDS) {
+      stopReason = `Stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls for one message.`;
+      chatView.displayMessage(`${stopReason} Send another message to let the model continue.`, 'system');
+    }
+
+    for (const toolCall of toolCalls) {
+        if (!stopReason && abortController.signal.aborted) stopReason = 'Cancelled by the user.';
+        if (stopReason) {
+            toolResultMessages.push({ role: 'tool', tool_call_id: toolCall.id, content: `Error: Not run. ${stopReason}`, isError: true });
+            continue;
+        }
+        const toolName = toolCall.function.name;
+        let toolArgs: Record<string, unknown> = {};
+        try {
+            toolArgs = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+        } catch (e) {
+            const errorMessage = `Invalid JSON arguments for tool '${toolName}': ${toolCall.function.arguments}`;
+            toolResultMessages.push({ role: 'tool', tool_call_id: toolCall.id, content: `Error: ${errorMessage}`, isError: true });
+            chatView.displayMessage(errorMessage, 'error');
+            continue;
+        }
+
+        chatView.displayMessage(`Running tool: ${toolName} with arguments: ${JSON.stringify(toolArgs, null, 2)}`, 'tool', {
+            toolDetails: { name: toolName, content: `Args: ${JSON.stringify(toolArgs, null, 2)}` }
+        });
+
+        const localTool = this.localToolService.getLocalTools().find(t => t.name === toolName);
+        if (localTool) {
+            const result: McpToolCallResult = await this.localToolService.executeTool(toolName, toolArgs);
+            
+            // Convert McpToolCallResult.content to a string for OpenAIMessage
+            // MCP allows multiple content blocks, OpenAI tool message expects a single string.
+            // We'll join them or take the first text block.
+            let resultContentString = "";
+            if (result.content && result.content.length > 0) {
+                resultContentString = result.content.map(c => c.text).join("\n"); 
+            }
+            if (result.isError) {
+                resultContentString = `Error: ${resultContentString}`; // Prepend Error if isError is true
+            }
+
+            toolResultMessages.push({
+                role: 'tool',
+                tool_call_id: toolCall.id,
+                content: resultContentString,
+                isError: result.isError || undefined
+            });
+
+            if (result.isError) {
+                chatView.displayMessage(`Error executing tool ${toolName}: ${resultContentString}`, 'error');
+            } else {
+                // Optionally display success, but can be verbose.
+                // chatView.displayMessage(`Tool ${toolName} executed.`, 'tool', { toolDetails: { name: toolName, content: resultContentString }});
+            }
+        } else {
+            const errorMessage = `Tool '${toolName}' is not a recognized local or Obsidian command.`;
+            toolResultMessages.push({
+                role: 'tool',
+                tool_call_id: toolCall.id,
+                content: `Error: ${errorMessage}`,
+                isError: true
+            });
+            chatView.displayMessage(errorMessage, 'error');
+        }
+    }
+
+    this.chatHistory.push(...toolResultMessages);
+    // The provider's onFinish ends the generation in the chat view
+    if (stopReason || abortController.signal.aborted) return;
+    await this.continueGenerationWithTools(chatView, abortController, round);
+  }
+
+  // round is the number of tool rounds run so far for the current user message
+  async continueGenerationWithTools(chatView: ChatView, abortController: AbortController, round: number) {
     let activeStreamingMessageEl: HTMLDivElement | null = null;
+    let streamedContent = '';
+    let reasoningContent = ''; // Displayed only, never added to chatHistory
+    // Tool results are already in chatHistory, so the conversation can be continued once the cap is raised
+    if (this.costTracker.isSpendingCapReached()) {
+      chatView.displayMessage(this.costTracker.getSpendingCapMessage(), 'error');
+      chatView.onGenerationFinished();
+      return;
+    }
     try {
-      activeStreamingMessageEl = await chatView.startStreamingResponse();
-      if (!activeStreamingMessageEl) {
-        throw new Error("Could not create streaming message element for continued generation.");
-      }
+      await this.generateChatResponse(chatView, abortController, async (chatProvider: TaskProvider) => {
+        if (activeStreamingMessageEl) chatView.discardStreamingResponse(activeStreamingMessageEl);
+        const recordUsage = await this.startApiRequestRow(chatView, chatProvider);
+        activeStreamingMessageEl = await chatView.startStreamingResponse();
+        if (!activeStreamingMessageEl) {
+          throw new Error("Could not create streaming message element for continued generation.");
+        }
 
-      const toolsForProvider = this.localToolService.getLocalTools(); 
-      
-      // History already updated in onToolCall
-      const currentCallStreamCallbacks: StreamCallbacks = {
-          onUpdate: async (chunk: string, isFinal: boolean) => {
-            if (activeStreamingMessageEl) {
-              await chatView.updateStreamingResponse(activeStreamingMessageEl, chunk);
-              if (isFinal) {
-                await chatView.finalizeStreamingResponse(activeStreamingMessageEl, chunk);
-                this.chatHistory.push({ role: 'assistant', content: chunk });
-                // onGenerationFinished is called by the main onFinish or onError
+        // History already updated in runToolCalls
+        const currentCallStreamCallbacks: StreamCallbacks = {
+            onUpdate: async (chunk: string, isFinal: boolean) => {
+              streamedContent += chunk;
+              if (activeStreamingMessageEl) {
+                await chatView.updateStreamingResponse(activeStreamingMessageEl, streamedContent);
+                if (isFinal) {
+                  await chatView.finalizeStreamingResponse(activeStreamingMessageEl, streamedContent);
+                  this.chatHistory.push({ role: 'assistant', content: streamedContent });
+                  // onGenerationFinished is called by the main onFinish or onError
+                }
               }
-            }
-          },
-          onFinish: (reason?: string) => {
-            chatView.onGenerationFinished();
-            if (reason) console.log("Streaming (after tools) finished with reason:", reason);
-          },
-          onError: (errorMsg: string, errorDetails?: unknown) => {
-            console.error("LLM Error (after tools):", errorMsg, errorDetails);
-            chatView.displayMessage(`Error after tool use: ${errorMsg}`, 'error');
-            chatView.onGenerationFinished();
-          },
-          // No onToolCall expected here, as we are responding to previous tool calls.
-      };
-
-      await this.activeLLMProvider.generateResponse(
-        this.chatHistory, 
-        this.settings, 
-        currentCallStreamCallbacks, 
-        toolsForProvider, 
-        abortController 
-      );
+            },
+            onFinish: (reason?: string) => {
+              chatView.onGenerationFinished();
+              if (reason) console.log("Streaming (after tools) finished with reason:", reason);
+            },
+            onError: (errorMsg: string, errorDetails?: unknown) => {
+              console.error("LLM Error (after tools):", errorMsg, errorDetails);
+              chatView.displayMessage(`Error after tool use: ${errorMsg}`, 'error');
+              chatView.onGenerationFinished();
+            },
+            // The model may chain further tool calls after seeing the results
+            onToolCall: async (toolCalls: ToolCall[]) => {
+              if (activeStreamingMessageEl) chatView.finalizeReasoning(activeStreamingMessageEl);
+              await this.runToolCalls(toolCalls, streamedContent, chatView, abortController, round + 1);
+            },
+            onUsage: recordUsage,
+            onReasoning: (reasoningChunk: string) => {
+              reasoningContent += reasoningChunk;
+              if (activeStreamingMessageEl) chatView.updateReasoning(activeStreamingMessageEl, reasoningContent);
+            },
+            onRetry: (retry: RetryInfo) => {
+              if (activeStreamingMessageEl) chatView.showRetryStatus(activeStreamingMessageEl, retry);
+            },
+        };
+        return currentCallStreamCallbacks;
+      }, round);
     } catch (error: unknown) {
       const errorMessage = (error instanceof Error ? error.message : String(error));
       console.error("Error during continued LLM response generation:", errorMessage, error);
@@ -444,11 +867,45 @@ export default class ObsigentPluginCore {
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.plugin.loadData());
+    const loadedData = await this.plugin.loadData();
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
+    if (loadedData && !loadedData.providerProfiles && loadedData.providerSettings) {
+      this.migrateProviderSettingsToProfiles();
+    } else if (!loadedData?.providerProfiles) {
+      // Profiles are edited in place, so they must not share objects with DEFAULT_SETTINGS
+      this.settings.providerProfiles = DEFAULT_SETTINGS.providerProfiles.map(profile => ({ ...profile, settings: { ...profile.settings } }));
+    }
+  }
+
+  // Turns the former one-slot-per-provider-type settings into one profile per type, keeping the selected one active
+  private migrateProviderSettingsToProfiles() {
+    const legacyProviderSettings = this.settings.providerSettings || {};
+    this.settings.providerProfiles = (Object.keys(legacyProviderSettings) as LLMProviderType[])
+      .filter(providerType => ALL_LLM_PROVIDERS.includes(providerType))
+      .map(providerType => ({
+        id: providerType,
+        name: LLM_PROVIDER_NAMES[providerType],
+        providerType,
+        settings: { ...legacyProviderSettings[providerType] },
+      }));
+    this.settings.activeProfileId = this.settings.selectedProvider || this.settings.providerProfiles[0]?.id || '';
+    delete this.settings.providerSettings;
+    delete this.settings.selectedProvider;
   }
 
   async saveSettings() {
     await this.plugin.saveData(this.settings);
+    // Providers read their profile's settings on each request, so only a different profile needs a new instance
+    const activeProfile = this.getActiveProfile();
+    if (!this.activeLLMProvider || this.activeLLMProvider.profileId !== (activeProfile?.id ?? '') || (activeProfile && this.activeLLMProvider.providerName !== activeProfile.providerType)) {
+      this.updateActiveLLMProvider();
+    }
+    // The model, its capabilities or the spend totals may have changed
+    this.plugin.app.workspace.getLeavesOfType(CHAT_VIEW_TYPE).forEach(leaf => {
+      if (leaf.view instanceof ChatView) {
+        leaf.view.refreshModelInfo();
+      }
+    });
   }
 
   // --- New methods for file-based command cache ---
@@ -495,10 +952,20 @@ export default class ObsigentPluginCore {
 
   // Method to generate command description using LLM
   public async generateCommandDescription(commandId: string, commandName: string): Promise<string | null> {
-    const currentLLMProvider = this.getActiveLLMProvider();
-    if (!currentLLMProvider) {
+    // Command analysis runs for every command, so it may be routed to a cheaper model than the chat
+    const taskProvider = this.getTaskProvider('commandAnalysis');
+    if (!taskProvider) {
         return null;
     }
+    const currentLLMProvider = taskProvider.provider;
+    if (this.costTracker.isSpendingCapReached()) {
+        console.warn(`Obsigent: Skipping description generation for ${commandName}: ${this.costTracker.getSpendingCapMessage()}`);
+        return null;
+    }
+    const providerType = taskProvider.profile.providerType;
+    const model = taskProvider.model;
+    const unpricedModelWarning = this.costTracker.getUnpricedModelWarning(providerType, model);
+    if (unpricedModelWarning) console.warn(`Obsigent: ${unpricedModelWarning}`);
 
     const prompt = `Analyze the Obsidian command named "${commandName}" (ID: "${commandId}").
 Provide a concise, one-sentence description of what this command likely does. This description is for a tool manifest.
@@ -532,25 +999,34 @@ Example of a bad response:
                 }
                 fullResponse += chunk;
             },
+            // Reasoning is not part of the description, but shows the model is responding
+            onReasoning: () => {
+                if (descriptionGenerationTimeoutId) {
+                    clearTimeout(descriptionGenerationTimeoutId);
+                    descriptionGenerationTimeoutId = undefined;
+                }
+            },
             onFinish: (reason?: string) => {
                 // console.log(`generateCommandDescription (${commandName}): LLM stream finished. Reason: ${reason || 'N/A'}`);
             },
             onError: (errorMsg: string, errorDetails?: unknown) => {
                 console.error(`LLM error generating description for ${commandName}: ${errorMsg}`, errorDetails);
                 fullResponse = ""; 
+            },
+            onUsage: (usage: TokenUsage) => {
+                this.costTracker.recordUsage(providerType, model, usage, false);
             }
         };
 
         const abortController = new AbortController();
-        const modifiedSettings = JSON.parse(JSON.stringify(this.settings));
-
-        if (!modifiedSettings.providerSettings) {
-            modifiedSettings.providerSettings = {};
-        }
-        if (!modifiedSettings.providerSettings[this.settings.selectedProvider]) {
-            modifiedSettings.providerSettings[this.settings.selectedProvider] = {};
+        const modifiedSettings: ObsigentPluginSettings = JSON.parse(JSON.stringify(taskProvider.settings));
+        const modifiedProfile = findProviderProfile(modifiedSettings, currentLLMProvider.profileId);
+        if (modifiedProfile) {
+            modifiedProfile.settings.sampling = { ...modifiedProfile.settings.sampling, temperature: 0.3 }; // Lowered temperature further
         }
-        modifiedSettings.providerSettings[this.settings.selectedProvider].temperature = 0.3; // Lowered temperature further
+
+        // Reasoning models think before their first visible token, so they get longer to start answering
+        const initialResponseTimeoutMs = currentLLMProvider.getCapabilities(taskProvider.settings).reasoning ? 60000 : 15000;
 
         const generationPromise = currentLLMProvider.generateResponse(
             messages,
@@ -568,9 +1044,9 @@ Example of a bad response:
                     if (!abortController.signal.aborted) {
                         abortController.abort(); // Abort the LLM call
                     }
-                    reject(new Error(`Timeout (15s) waiting for initial LLM response for command: ${commandName}`));
+                    reject(new Error(`Timeout (${initialResponseTimeoutMs / 1000}s) waiting for initial LLM response for command: ${commandName}`));
                 }
-            }, 15000);
+            }, initialResponseTimeoutMs);
         });
 
         // Ensure the timer is cleared if generationPromise finishes or errors out before the timeout,
@@ -618,11 +1094,20 @@ Example of a bad response:
 
   // New method to generate full MCP details for a command using LLM
   public async generateCommandMcpDetails(commandId: string, commandName: string): Promise<GeneratedCommandMcpDetails | null> {
-    const currentLLMProvider = this.getActiveLLMProvider();
-    if (!currentLLMProvider) {
+    const taskProvider = this.getTaskProvider('commandAnalysis');
+    if (!taskProvider) {
         new Notice(`Obsigent: LLM provider not available. Cannot generate details for ${commandName}.`);
         return null;
     }
+    const currentLLMProvider = taskProvider.provider;
+    if (this.costTracker.isSpendingCapReached()) {
+        console.warn(`Obsigent: Skipping MCP details generation for ${commandName}: ${this.costTracker.getSpendingCapMessage()}`);
+        return null;
+    }
+    const providerType = taskProvider.profile.providerType;
+    const model = taskProvider.model;
+    const unpricedModelWarning = this.costTracker.getUnpricedModelWarning(providerType, model);
+    if (unpricedModelWarning) console.warn(`Obsigent: ${unpricedModelWarning}`);
 
     const prompt = `
 You are an expert AI assistant specializing in Obsidian (obsidian.md) and its command system.
@@ -685,56 +1170,56 @@ Now, provide the JSON for the command: "${commandName}" (ID: "${commandId}"):\n`
 
     try {
       const messages: OpenAIMessage[] = [{ role: 'user', content: prompt }];
-      let llmResponseJsonString = '';
-      
-      const generationCallbacks: StreamCallbacks = {
-        onUpdate: (chunk, isFinal) => { llmResponseJsonString += chunk; },
-        onFinish: () => { /* console.log(`Obsigent: MCP details generation finished for ${commandName}.`); */ },
-        onError: (errorMsg, errorDetails) => {
-          console.error(`Obsigent: Error generating MCP details for ${commandName}: ${errorMsg}`, errorDetails);
-          llmResponseJsonString = ''; 
-        }
+      const responseFormat: StructuredOutputFormat = {
+        name: 'command_details',
+        description: `MCP tool details of the Obsidian command "${commandName}".`,
+        schema: GENERATED_COMMAND_MCP_DETAILS_SCHEMA,
       };
 
-      await currentLLMProvider.generateResponse(messages, this.settings, generationCallbacks, [], new AbortController());
-      
+      // Providers constrain the output where their API allows it; other models follow the prompt
+      const requestJson = async (requestMessages: OpenAIMessage[]): Promise<string> => {
+        let responseText = '';
+        const generationCallbacks: StreamCallbacks = {
+          onUpdate: (chunk, isFinal) => { responseText += chunk; },
+          onFinish: () => { /* console.log(`Obsigent: MCP details generation finished for ${commandName}.`); */ },
+          onError: (errorMsg, errorDetails) => {
+            console.error(`Obsigent: Error generating MCP details for ${commandName}: ${errorMsg}`, errorDetails);
+            responseText = '';
+          },
+          onUsage: (usage) => {
+            this.costTracker.recordUsage(providerType, model, usage, false);
+          }
+        };
+        await currentLLMProvider.generateResponse(requestMessages, taskProvider.settings, generationCallbacks, [], new AbortController(), responseFormat);
+        return responseText;
+      };
+
+      const llmResponseJsonString = await requestJson(messages);
       if (!llmResponseJsonString || llmResponseJsonString.trim() === '') {
         console.warn(`Obsigent: LLM returned empty response for ${commandName} MCP details.`);
         return null;
       }
 
-      // Strip <think>...</think> blocks before parsing
-      const strippedJsonString = llmResponseJsonString.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
-
-      if (!strippedJsonString) {
-        console.warn(`Obsigent: LLM response for ${commandName} was empty after stripping <think> blocks.`);
-        return null;
+      // Reasoning, markdown fences and surrounding text are repaired away by the parser. If the JSON is still
+      // invalid, the model is shown its answer with the validation errors and asked once to correct it.
+      let structuredOutput = parseStructuredOutput(llmResponseJsonString, GENERATED_COMMAND_MCP_DETAILS_SCHEMA);
+      if (structuredOutput.errors.length > 0) {
+        console.warn(`Obsigent: Invalid MCP details for ${commandName}, asking the model to correct them:`, structuredOutput.errors, llmResponseJsonString);
+        const correctedResponse = await requestJson([
+          ...messages,
+          { role: 'assistant', content: llmResponseJsonString },
+          { role: 'user', content: `Your response is not valid:\n- ${structuredOutput.errors.slice(0, 10).join('\n- ')}\n\nReply with only the corrected JSON object.` },
+        ]);
+        structuredOutput = parseStructuredOutput(correctedResponse, GENERATED_COMMAND_MCP_DETAILS_SCHEMA);
       }
-
-      let parsedJsonOutput: unknown;
-      try {
-        // Use the stripped string for parsing
-        parsedJsonOutput = JSON.parse(strippedJsonString);
-      } catch (parseError) {
-        console.error(`Obsigent: Failed to parse JSON response for ${commandName}. Error: ${parseError}. Original Response: "${llmResponseJsonString}". Stripped Response: "${strippedJsonString}"`);
+      if (structuredOutput.errors.length > 0) {
+        console.error(`Obsigent: LLM response for ${commandName} is still invalid after the correction request:`, structuredOutput.errors);
         new Notice(`Obsigent: Could not understand LLM response for ${commandName}. Using defaults.`);
         return null;
       }
 
-      const detailsToValidate = parsedJsonOutput as PartialGeneratedCommandMcpDetailsForValidation;
-
-      if (!detailsToValidate || 
-          typeof detailsToValidate.description !== 'string' ||
-          typeof detailsToValidate.inputSchema !== 'object' || detailsToValidate.inputSchema === null ||
-          detailsToValidate.inputSchema.type !== 'object' || 
-          typeof detailsToValidate.inputSchema.properties !== 'object' || detailsToValidate.inputSchema.properties === null ||
-          (detailsToValidate.inputSchema.required !== undefined && !Array.isArray(detailsToValidate.inputSchema.required)) ||
-          typeof detailsToValidate.annotations !== 'object' || detailsToValidate.annotations === null ||
-          typeof detailsToValidate.annotations.title !== 'string') {
-        console.warn(`Obsigent: LLM response for ${commandName} has incorrect structure. Details: `, detailsToValidate);
-        new Notice(`Obsigent: LLM response for ${commandName} had unexpected structure. Using defaults.`);
-        return null;
-      }
+      // The schema guarantees the structure; optional fields are filled in below
+      const detailsToValidate = structuredOutput.value as PartialGeneratedCommandMcpDetailsForValidation;
       
       const ensureBoolean = (value: unknown, defaultValue: boolean): boolean => typeof value === 'boolean' ? value : defaultValue;
       
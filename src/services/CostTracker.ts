@@ -0,0 +1,89 @@
+// src/services/CostTracker.ts
+// Turns reported token usage into costs and keeps the running totals:
+// per conversation (in memory, for the current chat) and per calendar month (persisted in the settings).
+
+import { debounce } from 'obsidian';
+import ObsigentPluginCore from '../main';
+import { LLM_PROVIDER_NAMES, LLMProviderType, TokenUsage } from '../api/LLMProvider';
+import { calculateCost, findModelPrice } from '../api/ModelPricing';
+
+// Command analysis sends hundreds of requests at startup, so the monthly spend is saved at most this often
+const SPEND_SAVE_INTERVAL_MS = 5000;
+
+// Local providers cost nothing, so a missing price does not weaken the spending cap
+const FREE_PROVIDER_TYPES: LLMProviderType[] = ['ollama', 'replay'];
+
+export class CostTracker {
+    private pluginCore: ObsigentPluginCore;
+    private conversationCost = 0;
+    private warnedUnpricedModels: Set<string> = new Set();
+    private requestSave = debounce(() => this.pluginCore.saveSettings(), SPEND_SAVE_INTERVAL_MS, false);
+
+    constructor(pluginCore: ObsigentPluginCore) {
+        this.pluginCore = pluginCore;
+    }
+
+    // e.g. "2025-06", in local time so the month rolls over at the user's midnight
+    private static getMonthKey(date: Date = new Date()): string {
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    }
+
+    // Returns the cost of the request in USD, or undefined if the model has no price in the pricing table.
+    // Requests made for the chat count towards the conversation total; all requests count towards the month.
+    public async recordUsage(provider: LLMProviderType, model: string | undefined, usage: TokenUsage, isChatRequest: boolean): Promise<number | undefined> {
+        const price = findModelPrice(this.pluginCore.settings.modelPricing || [], provider, model);
+        if (!price) return undefined;
+
+        const cost = calculateCost(usage, price);
+        if (isChatRequest) {
+            this.conversationCost += cost;
+        }
+
+        const monthKey = CostTracker.getMonthKey();
+        const monthlySpend = { ...this.pluginCore.settings.monthlySpend };
+        monthlySpend[monthKey] = (monthlySpend[monthKey] || 0) + cost;
+        this.pluginCore.settings.monthlySpend = monthlySpend;
+        this.requestSave();
+
+        return cost;
+    }
+
+    // Saves a pending monthly spend update right away, e.g. when the plugin is unloaded
+    public flush(): void {
+        this.requestSave.run();
+    }
+
+    // Requests to a model without a price are not counted, so they could exceed a spending cap unnoticed.
+    // Returns a warning the first time such a model is used while a cap is set, otherwise null.
+    public getUnpricedModelWarning(provider: LLMProviderType, model: string | undefined): string | null {
+        const cap = this.pluginCore.settings.monthlySpendingCap;
+        if (cap === undefined || cap <= 0 || FREE_PROVIDER_TYPES.includes(provider)) return null;
+        if (findModelPrice(this.pluginCore.settings.modelPricing || [], provider, model)) return null;
+        const key = `${provider}:${model || ''}`;
+        if (this.warnedUnpricedModels.has(key)) return null;
+        this.warnedUnpricedModels.add(key);
+        return `${LLM_PROVIDER_NAMES[provider]} model "${model || 'default'}" has no price, so its requests do not count towards the monthly spending cap. Add a price under Model Prices in the Obsigent settings (0 for a free model).`;
+    }
+
+    public getConversationCost(): number {
+        return this.conversationCost;
+    }
+
+    public resetConversation(): void {
+        this.conversationCost = 0;
+    }
+
+    public getMonthlyCost(): number {
+        return this.pluginCore.settings.monthlySpend?.[CostTracker.getMonthKey()] || 0;
+    }
+
+    // The cap is checked before each request, so the request that crosses it still completes
+    public isSpendingCapReached(): boolean {
+        const cap = this.pluginCore.settings.monthlySpendingCap;
+        return cap !== undefined && cap > 0 && this.getMonthlyCost() >= cap;
+    }
+
+    public getSpendingCapMessage(): string {
+        return `Monthly spending cap of $${(this.pluginCore.settings.monthlySpendingCap || 0).toFixed(2)} reached ($${this.getMonthlyCost().toFixed(2)} spent this month). Raise or remove the cap in the Obsigent settings to continue.`;
+    }
+}
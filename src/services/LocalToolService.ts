@@ -92,9 +92,12 @@ export class LocalToolService {
             return;
         }
         // Additional guard: ensure LLM provider is ready before attempting generation
-        if (!this.pluginCore.getActiveLLMProvider()) {
+        if (!this.pluginCore.getTaskProvider('commandAnalysis')) {
             // console.log("Obsigent: LLM provider not active, skipping description generation for now.");
         }
+        // Enhanced command details only matter when the chat model can call the commands as tools.
+        // The analysis itself runs on the model routed to command analysis.
+        const canAnalyzeCommands = !!this.pluginCore.getTaskProvider('commandAnalysis') && this.pluginCore.getTaskCapabilities('chat').tools;
         const obsidianCommands: Command[] = this.app.commands.listCommands();
         const cachedCommands = this.commandMcpCache;
         let newCacheRequired = false;
@@ -114,7 +117,7 @@ export class LocalToolService {
 
         if (obsidianCommands) {
             let commandsToGenerateCount = 0;
-            if (this.pluginCore.getActiveLLMProvider()) { // Only count if LLM is available
+            if (canAnalyzeCommands) { // Only count if LLM is available and supports tools
                 for (const command of obsidianCommands) {
                     const cachedDetail: CachedCommandMcpDetails | undefined = cachedCommands[command.id];
                     if (!cachedDetail || cachedDetail.originalName !== command.name || !cachedDetail.description || cachedDetail.description.startsWith('Obsidian Command:') || !cachedDetail.inputSchema || !cachedDetail.annotations) {
@@ -131,7 +134,7 @@ export class LocalToolService {
             for (const command of obsidianCommands) {
                 const cachedDetail: CachedCommandMcpDetails | undefined = cachedCommands[command.id];
 
-                if (this.pluginCore.getActiveLLMProvider() && (!cachedDetail || cachedDetail.originalName !== command.name || !cachedDetail.description || cachedDetail.description.startsWith('Obsidian Command:') || !cachedDetail.inputSchema || !cachedDetail.annotations )) {
+                if (canAnalyzeCommands && (!cachedDetail || cachedDetail.originalName !== command.name || !cachedDetail.description || cachedDetail.description.startsWith('Obsidian Command:') || !cachedDetail.inputSchema || !cachedDetail.annotations )) {
                     const generationTask = async () => {
                         let taskMadeChangeAndShouldSave = false; // Flag for this specific task
                         let lockAcquired = false;
@@ -303,7 +306,7 @@ export class LocalToolService {
                     finalMcpDescription = finalCachedDetail.description;
                     finalInputSchema = finalCachedDetail.inputSchema || finalInputSchema; // Use cached or default
                     finalAnnotations = finalCachedDetail.annotations || finalAnnotations; // Use cached or default
-                } else if (!this.pluginCore.getActiveLLMProvider()) {
+                } else if (!this.pluginCore.getTaskProvider('commandAnalysis')) {
                     // If no LLM and no valid cache, ensure it's at least the default.
                     // This case should be covered by the logic block above that sets default if LLM is not active.
                     // console.log(`Obsigent: No LLM, using default description for ${command.name}`);
@@ -0,0 +1,83 @@
+// src/services/ProviderRecorder.ts
+// Recording mode: every provider request and its streamed response are written to a fixture file in the plugin
+// folder, which a replay profile can play back. One file is written per recording session, i.e. from turning
+// recording on (or loading the plugin with it on) until it is turned off.
+
+import { Notice } from 'obsidian';
+import ObsigentPluginCore from '../main';
+import { LLMProvider } from '../api/LLMProvider';
+import { PROVIDER_FIXTURE_VERSION, ProviderFixture, RecordingProvider } from '../api/ProviderFixture';
+import { ensureGitIgnored } from './SecretStore';
+
+const RECORDINGS_FOLDER_NAME = 'recordings';
+
+export class ProviderRecorder {
+    private pluginCore: ObsigentPluginCore;
+    private fixture: ProviderFixture | null = null;
+    private fixturePath: string | null = null;
+    private saveQueue: Promise<void> = Promise.resolve();
+
+    constructor(pluginCore: ObsigentPluginCore) {
+        this.pluginCore = pluginCore;
+    }
+
+    private getPluginDataDir(): string {
+        return `${this.pluginCore.app.vault.configDir}/plugins/${this.pluginCore.plugin.manifest.id}`;
+    }
+
+    public getRecordingsFolder(): string {
+        return `${this.getPluginDataDir()}/${RECORDINGS_FOLDER_NAME}`;
+    }
+
+    // Vault-relative path of the current session's file, for the settings; null before the first request
+    public getFixturePath(): string | null {
+        return this.fixturePath;
+    }
+
+    public wrap(provider: LLMProvider): LLMProvider {
+        return new RecordingProvider(
+            provider,
+            interaction => this.getSessionFixture().interactions.push(interaction),
+            () => this.save(),
+            this.pluginCore.requestLog
+        );
+    }
+
+    // The next request starts a new file
+    public endSession(): void {
+        this.fixture = null;
+        this.fixturePath = null;
+    }
+
+    private getSessionFixture(): ProviderFixture {
+        if (!this.fixture) {
+            const createdAt = new Date();
+            this.fixture = { version: PROVIDER_FIXTURE_VERSION, createdAt: createdAt.toISOString(), interactions: [] };
+            this.fixturePath = `${this.getRecordingsFolder()}/recording-${createdAt.toISOString().replace(/[:.]/g, '-')}.json`;
+        }
+        return this.fixture;
+    }
+
+    // Saved after each request, so a crash loses at most the running one. Saves are queued because nested
+    // tool-call requests complete while their parent is still running.
+    private save(): Promise<void> {
+        const fixture = this.fixture;
+        const fixturePath = this.fixturePath;
+        if (!fixture || !fixturePath) return this.saveQueue;
+        const adapter = this.pluginCore.app.vault.adapter;
+        this.saveQueue = this.saveQueue.then(async () => {
+            try {
+                if (!await adapter.exists(this.getRecordingsFolder())) {
+                    await adapter.mkdir(this.getRecordingsFolder());
+                }
+                // Recordings hold whole conversations, which may contain notes the user would not commit
+                await ensureGitIgnored(adapter, this.getPluginDataDir(), `${RECORDINGS_FOLDER_NAME}/`);
+                await adapter.write(fixturePath, JSON.stringify(fixture, null, 2));
+            } catch (error) {
+                console.error(`ProviderRecorder: Error saving the recording to ${fixturePath}:`, error);
+                new Notice("Obsigent: Could not save the provider recording. Check console for details.");
+            }
+        });
+        return this.saveQueue;
+    }
+}
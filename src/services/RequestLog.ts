@@ -0,0 +1,129 @@
+// src/services/RequestLog.ts
+// Keeps the request inspector's entries in memory and writes a redacted summary of each request to the
+// console, both according to the log level in the settings. API keys, custom header and query parameter
+// values, stored secrets and the secrets they reference are redacted from everything that is logged.
+
+import ObsigentPluginCore from '../main';
+import { LLMProvider } from '../api/LLMProvider';
+import { InspectingProvider, RequestLogEntry, RequestLogLevel, RequestLogSink } from '../api/RequestInspection';
+import { getStoredSecretValues, redactSecrets, redactUrl, resolveSecretReferences } from '../api/SecretReferences';
+
+const MAX_LOG_ENTRIES = 200;
+
+// Command analysis sends a burst of requests at startup, so successful requests are only logged on request
+export const DEFAULT_REQUEST_LOG_LEVEL: RequestLogLevel = 'errors';
+
+export class RequestLog implements RequestLogSink {
+    private pluginCore: ObsigentPluginCore;
+    private entries: RequestLogEntry[] = [];
+    private lastEntryId = 0;
+    private listeners: Set<() => void> = new Set();
+
+    constructor(pluginCore: ObsigentPluginCore) {
+        this.pluginCore = pluginCore;
+    }
+
+    public wrap(provider: LLMProvider): LLMProvider {
+        return new InspectingProvider(provider, this);
+    }
+
+    public getLogLevel(): RequestLogLevel {
+        return this.pluginCore.settings.requestLogLevel || DEFAULT_REQUEST_LOG_LEVEL;
+    }
+
+    public nextEntryId(): number {
+        return ++this.lastEntryId;
+    }
+
+    // Collected on each use, so keys entered since the last request are redacted too
+    private getSecrets(): string[] {
+        const secrets: string[] = getStoredSecretValues();
+        for (const profile of this.pluginCore.settings.providerProfiles || []) {
+            const providerSettings = profile.settings;
+            const values = (providerSettings.customHeaders || []).concat(providerSettings.customQueryParameters || []).map(parameter => parameter.value);
+            if (providerSettings.apiKey) values.push(providerSettings.apiKey);
+            for (const value of values) {
+                if (!value) continue;
+                secrets.push(value);
+                try {
+                    secrets.push(resolveSecretReferences(value));
+                } catch (e) {
+                    // An unset variable has no value that could leak
+                }
+            }
+        }
+        // Longest first, so a secret containing another one is replaced as a whole
+        return secrets.sort((a, b) => b.length - a.length);
+    }
+
+    public redact(text: string): string {
+        return redactSecrets(text, this.getSecrets());
+    }
+
+    public redactUrl(url: string): string {
+        return redactUrl(url, this.getSecrets());
+    }
+
+    public onRequestStart(entry: RequestLogEntry): void {
+        // Failed requests are only known to be worth keeping once they fail
+        if (this.getLogLevel() === 'errors') return;
+        this.addEntry(entry);
+    }
+
+    public onRequestEnd(entry: RequestLogEntry): void {
+        if (entry.outcome === 'error') {
+            if (!this.entries.includes(entry)) this.addEntry(entry);
+            console.warn(`Obsigent request #${entry.id} failed: ${RequestLog.formatSummary(entry)}`);
+        } else if (this.getLogLevel() !== 'errors') {
+            console.log(`Obsigent request #${entry.id}: ${RequestLog.formatSummary(entry)}`);
+        }
+        this.notifyListeners();
+    }
+
+    private addEntry(entry: RequestLogEntry): void {
+        this.entries.push(entry);
+        if (this.entries.length > MAX_LOG_ENTRIES) {
+            this.entries.splice(0, this.entries.length - MAX_LOG_ENTRIES);
+        }
+        this.notifyListeners();
+    }
+
+    // Newest first
+    public getEntries(): RequestLogEntry[] {
+        return [...this.entries].reverse();
+    }
+
+    public clear(): void {
+        this.entries = [];
+        this.notifyListeners();
+    }
+
+    // The redacted entries as JSON, oldest first, e.g. to attach to a bug report
+    public exportJson(): string {
+        return JSON.stringify({ exportedAt: new Date().toISOString(), logLevel: this.getLogLevel(), entries: this.entries }, null, 2);
+    }
+
+    // Returns a function that removes the listener
+    public onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private notifyListeners(): void {
+        this.listeners.forEach(listener => listener());
+    }
+
+    // e.g. "OpenAI · gpt-4o → https://api.openai.com/v1/chat/completions, HTTP 200, 3 messages, 5 tools, 1.2 s, 1200 in / 80 out tokens"
+    public static formatSummary(entry: RequestLogEntry): string {
+        const parts: string[] = [];
+        parts.push(entry.status !== undefined ? `HTTP ${entry.status}` : 'no response');
+        parts.push(`${entry.messageCount} messages`, `${entry.toolCount} tools`);
+        if (entry.imageCount > 0) parts.push(`${entry.imageCount} images`);
+        if (entry.attempts > 1) parts.push(`${entry.attempts} attempts`);
+        if (entry.durationMs !== undefined) parts.push(`${(entry.durationMs / 1000).toFixed(1)} s`);
+        if (entry.usage) parts.push(`${entry.usage.inputTokens + entry.usage.cacheReadTokens + entry.usage.cacheWriteTokens} in / ${entry.usage.outputTokens} out tokens`);
+        if (entry.toolCalls?.length) parts.push(`called ${entry.toolCalls.join(', ')}`);
+        if (entry.error) parts.push(entry.error);
+        return `${entry.profileName} · ${entry.model || 'no model'} → ${entry.endpoint || 'default endpoint'}, ${parts.join(', ')}`;
+    }
+}
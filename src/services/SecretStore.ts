@@ -0,0 +1,133 @@
+// src/services/SecretStore.ts
+// Keeps API keys in secrets.json in the plugin folder instead of data.json. Obsidian Sync only syncs a plugin's
+// data.json and code, and a .gitignore next to the file keeps it out of vault repositories; the settings only
+// contain {{secret:NAME}} references, which providers resolve when they send a request.
+
+import { DataAdapter, Notice } from 'obsidian';
+import ObsigentPluginCore from '../main';
+import { ProviderProfile } from '../api/LLMProvider';
+import { formatStoredSecretReference, getStoredSecretName, hasSecretReference, setStoredSecrets } from '../api/SecretReferences';
+
+const SECRETS_FILE_NAME = 'secrets.json';
+const GITIGNORE_FILE_NAME = '.gitignore';
+
+// Adds entry to the .gitignore in folder unless it is listed already. Vaults kept in git would otherwise commit
+// files that contain secrets along with the plugin folder.
+export async function ensureGitIgnored(adapter: DataAdapter, folder: string, entry: string): Promise<void> {
+    const gitignorePath = `${folder}/${GITIGNORE_FILE_NAME}`;
+    const gitignore = await adapter.exists(gitignorePath) ? await adapter.read(gitignorePath) : '';
+    if (gitignore.split(/\r?\n/).some(line => line.trim() === entry)) return;
+    await adapter.write(gitignorePath, `${gitignore}${gitignore && !gitignore.endsWith('\n') ? '\n' : ''}${entry}\n`);
+}
+
+export class SecretStore {
+    private pluginCore: ObsigentPluginCore;
+    private secrets: Record<string, string> = {};
+
+    constructor(pluginCore: ObsigentPluginCore) {
+        this.pluginCore = pluginCore;
+    }
+
+    private getPluginDataDir(): string {
+        return `${this.pluginCore.app.vault.configDir}/plugins/${this.pluginCore.plugin.manifest.id}`;
+    }
+
+    public getFilePath(): string {
+        return `${this.getPluginDataDir()}/${SECRETS_FILE_NAME}`;
+    }
+
+    public async load(): Promise<void> {
+        const filePath = this.getFilePath();
+        try {
+            if (await this.pluginCore.app.vault.adapter.exists(filePath)) {
+                const parsed = JSON.parse(await this.pluginCore.app.vault.adapter.read(filePath));
+                this.secrets = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+            }
+        } catch (error) {
+            console.error(`SecretStore: Error loading ${filePath}:`, error);
+            new Notice("Obsigent: Could not load the stored API keys. Check console for details.");
+        }
+        setStoredSecrets(this.secrets);
+    }
+
+    public get(name: string): string | undefined {
+        return this.secrets[name];
+    }
+
+    // Returns false if the file could not be written; the secret is still usable until Obsidian is closed
+    public async set(name: string, value: string): Promise<boolean> {
+        this.secrets[name] = value;
+        return this.save();
+    }
+
+    public async delete(name: string): Promise<void> {
+        if (!(name in this.secrets)) return;
+        delete this.secrets[name];
+        await this.save();
+    }
+
+    private async save(): Promise<boolean> {
+        setStoredSecrets(this.secrets);
+        const adapter = this.pluginCore.app.vault.adapter;
+        const pluginDataDir = this.getPluginDataDir();
+        try {
+            if (!await adapter.exists(pluginDataDir)) {
+                await adapter.mkdir(pluginDataDir);
+            }
+            await ensureGitIgnored(adapter, pluginDataDir, SECRETS_FILE_NAME);
+            await adapter.write(this.getFilePath(), JSON.stringify(this.secrets, null, 2));
+            return true;
+        } catch (error) {
+            console.error(`SecretStore: Error saving ${this.getFilePath()}:`, error);
+            new Notice("Obsigent: Could not save the API key. Check console for details.");
+            return false;
+        }
+    }
+
+    public static getApiKeySecretName(profile: ProviderProfile): string {
+        return `${profile.id}-api-key`;
+    }
+
+    // A typed {{env:NAME}} or {{secret:NAME}} reference is kept as it is; a key is stored and replaced by a reference.
+    // An empty value removes the key. Returns false if the key could not be stored, leaving the profile unchanged.
+    public async setProfileApiKey(profile: ProviderProfile, value: string, allProfiles: ProviderProfile[]): Promise<boolean> {
+        const apiKey = value.trim();
+        const previousSecretName = getStoredSecretName(profile.settings.apiKey || '');
+        const secretName = SecretStore.getApiKeySecretName(profile);
+        if (!apiKey || hasSecretReference(apiKey)) {
+            profile.settings.apiKey = apiKey;
+        } else {
+            if (!await this.set(secretName, apiKey)) return false;
+            profile.settings.apiKey = formatStoredSecretReference(secretName);
+        }
+        if (previousSecretName && previousSecretName !== getStoredSecretName(profile.settings.apiKey)) {
+            await this.deleteUnreferenced(previousSecretName, allProfiles);
+        }
+        return true;
+    }
+
+    // Duplicated profiles share the reference, so a secret is only removed when no other profile uses it
+    public async deleteUnreferenced(name: string, profiles: ProviderProfile[]): Promise<void> {
+        if (profiles.some(profile => getStoredSecretName(profile.settings.apiKey || '') === name)) return;
+        await this.delete(name);
+    }
+
+    // Moves API keys saved by earlier versions from data.json to the secret store; returns true if settings changed.
+    // A key that cannot be stored stays in data.json, so it is never lost.
+    public async migratePlainTextApiKeys(): Promise<boolean> {
+        const settings = this.pluginCore.settings;
+        let changed = false;
+        for (const profile of settings.providerProfiles || []) {
+            const apiKey = profile.settings.apiKey?.trim();
+            if (apiKey && !hasSecretReference(apiKey) && await this.setProfileApiKey(profile, apiKey, settings.providerProfiles)) {
+                changed = true;
+            }
+        }
+        // The global key from before provider settings is still read as a fallback by the OpenAI provider
+        if (settings.apiKey?.trim() && !hasSecretReference(settings.apiKey) && await this.set('api-key', settings.apiKey.trim())) {
+            settings.apiKey = formatStoredSecretReference('api-key');
+            changed = true;
+        }
+        return changed;
+    }
+}
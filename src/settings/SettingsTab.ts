@@ -1,19 +1,35 @@
-import { App, Plugin, PluginSettingTab, Setting, Notice, ValueComponent } from 'obsidian';
+import { App, Plugin, PluginSettingTab, Setting, Notice, ValueComponent, setIcon } from 'obsidian';
 import ObsigentPluginCore from '../main';
-import { LLMProviderType, ALL_LLM_PROVIDERS, LLM_PROVIDER_NAMES, ProviderSettings } from '../api/LLMProvider';
+import { LLMProviderType, ALL_LLM_PROVIDERS, LLM_PROVIDER_NAMES, ALL_LLM_TASKS, LLMTask, LLM_TASK_NAMES, TaskRoute, ProviderProfile, ProviderSettings, RequestParameter, ProviderCapabilities, ToolChoiceMode, TOOL_CHOICE_MODE_NAMES, ValidationReport, ValidationStepStatus } from '../api/LLMProvider';
+import { detectModelCapabilities } from '../api/ModelCapabilities';
+import { DEFAULT_MODEL_PRICING, ModelPrice } from '../api/ModelPricing';
+import { DEFAULT_AZURE_API_VERSION } from '../api/OpenAIProvider';
+import { REQUEST_LOG_LEVEL_NAMES, RequestLogLevel } from '../api/RequestInspection';
+import { getStoredSecretName, maskSecret } from '../api/SecretReferences';
+import { DEFAULT_MAX_REQUEST_ATTEMPTS } from '../api/RequestRetry';
+import { SUPPORTED_SAMPLING_PARAMETERS, SAMPLING_PARAMETER_NAMES, SamplingParameter, SamplingParameters, SamplingParameterValue, formatSamplingParameter, getSamplingParameterDescription, parseSamplingParameter } from '../api/SamplingParameters';
 import { McpMarketplaceView } from '../components/McpMarketplaceView';
 import { McpServersView } from '../components/McpServersView';
+import { ModelSuggest } from '../components/ModelSuggest';
+import { RequestInspectorModal } from '../components/RequestInspectorModal';
 import { McpServer, ToolHiveMarketplaceItem } from '../types/mcp';
 import { McpMarketplaceService } from '../services/McpMarketplaceService';
+import { DEFAULT_REQUEST_LOG_LEVEL } from '../services/RequestLog';
 
 export class ObsigentSettingTab extends PluginSettingTab {
     pluginCore: ObsigentPluginCore;
     private providerSettingsContainer: HTMLDivElement;
+    private costSettingsContainer: HTMLDivElement;
     private mcpServersContainer: HTMLDivElement;
     private mcpMarketplaceContainer: HTMLDivElement;
     private mcpMarketplaceView: McpMarketplaceView | null = null;
     private mcpServersView: McpServersView | null = null;
     private marketplaceService: McpMarketplaceService;
+    private editingProfileId: string | null = null;
+    // Models fetched for each profile, kept while the settings tab exists so re-rendering does not refetch
+    private availableModels: Record<string, string[]> = {};
+    private modelListErrors: Record<string, string> = {};
+    private loadingModelsFor: string | null = null;
 
     constructor(app: App, plugin: Plugin, pluginCore: ObsigentPluginCore) {
         super(app, plugin);
@@ -27,24 +43,13 @@ export class ObsigentSettingTab extends PluginSettingTab {
 
         containerEl.createEl('h2', { text: 'Obsigent Settings' });
 
-        new Setting(containerEl)
-            .setName('Select LLM Provider')
-            .setDesc('Choose your preferred LLM provider for Obsigent.')
-            .addDropdown(dropdown => {
-                ALL_LLM_PROVIDERS.forEach(provider => {
-                    dropdown.addOption(provider, LLM_PROVIDER_NAMES[provider]);
-                });
-                dropdown.setValue(this.pluginCore.settings.selectedProvider);
-                dropdown.onChange(async (value) => {
-                    this.pluginCore.settings.selectedProvider = value as LLMProviderType;
-                    await this.pluginCore.saveSettings();
-                    this.renderProviderSettings();
-                });
-            });
-
         this.providerSettingsContainer = containerEl.createDiv('provider-settings-container');
         this.renderProviderSettings();
 
+        containerEl.createEl('h2', { text: 'Cost Tracking' });
+        this.costSettingsContainer = containerEl.createDiv('cost-settings-container');
+        this.renderCostSettings();
+
         containerEl.createEl('h2', { text: 'Model Context Protocol (MCP) Settings' });
 
         containerEl.createEl('h3', { text: 'Managed ToolHive MCPs' });
@@ -57,54 +62,374 @@ export class ObsigentSettingTab extends PluginSettingTab {
         this.renderMcpSections();
     }
 
+    // The profile whose settings are shown below the profile list; defaults to the active profile
+    private getEditingProfile(): ProviderProfile | undefined {
+        return this.pluginCore.settings.providerProfiles.find(profile => profile.id === this.editingProfileId) || this.pluginCore.getActiveProfile();
+    }
+
     private renderProviderSettings(): void {
         this.providerSettingsContainer.empty();
-        const selectedProvider = this.pluginCore.settings.selectedProvider;
+        const settings = this.pluginCore.settings;
+        const activeProfile = this.pluginCore.getActiveProfile();
 
-        if (!this.pluginCore.settings.providerSettings[selectedProvider]) {
-            this.pluginCore.settings.providerSettings[selectedProvider] = {};
+        new Setting(this.providerSettingsContainer)
+            .setName('Active Profile')
+            .setDesc('The provider profile used for the chat and for analyzing commands.')
+            .addDropdown(dropdown => {
+                settings.providerProfiles.forEach(profile => {
+                    dropdown.addOption(profile.id, profile.name);
+                });
+                dropdown.setValue(activeProfile?.id || '');
+                dropdown.onChange(async (value) => {
+                    settings.activeProfileId = value;
+                    await this.pluginCore.saveSettings();
+                    this.renderProviderSettings();
+                });
+            });
+
+        this.renderProfileList();
+        this.renderTaskRouting();
+        this.renderRetrySettings();
+        this.renderFallbackSettings();
+        this.renderRequestLogSettings();
+        this.renderRecordingSettings();
+
+        const editingProfile = this.getEditingProfile();
+        if (editingProfile) {
+            this.renderProfileSettings(editingProfile);
         }
-        const currentProviderSettings = this.pluginCore.settings.providerSettings[selectedProvider] as ProviderSettings;
+    }
 
-        this.providerSettingsContainer.createEl('h3', { text: `${LLM_PROVIDER_NAMES[selectedProvider]} Settings` });
+    // Every profile with its provider type and model; several profiles may use the same provider type
+    private renderProfileList(): void {
+        const settings = this.pluginCore.settings;
+        const activeProfile = this.pluginCore.getActiveProfile();
+        const editingProfile = this.getEditingProfile();
 
-        if (selectedProvider !== 'ollama') {
-            const apiKeySetting = new Setting(this.providerSettingsContainer)
-                .setName('API Key');
+        this.providerSettingsContainer.createEl('h3', { text: 'Provider Profiles' });
 
-            if (selectedProvider === 'openai') {
-                apiKeySetting.setDesc(`Enter your API key for ${LLM_PROVIDER_NAMES[selectedProvider]}. Optional for some local OpenAI-compatible servers (e.g., LM Studio).`);
-            } else {
-                apiKeySetting.setDesc(`Enter your API key for ${LLM_PROVIDER_NAMES[selectedProvider]}.`);
+        settings.providerProfiles.forEach(profile => {
+            const profileSetting = new Setting(this.providerSettingsContainer)
+                .setName(profile === activeProfile ? `${profile.name} (active)` : profile.name)
+                .setDesc(`${LLM_PROVIDER_NAMES[profile.providerType] || profile.providerType} · ${profile.settings.defaultModel || 'No model set'}`)
+                .addExtraButton(button => button
+                    .setIcon('pencil')
+                    .setTooltip('Edit profile')
+                    .onClick(() => {
+                        this.editingProfileId = profile.id;
+                        this.renderProviderSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('copy')
+                    .setTooltip('Duplicate profile')
+                    .onClick(async () => {
+                        const duplicate = this.pluginCore.addProviderProfile(profile.providerType, `${profile.name} (copy)`);
+                        duplicate.settings = JSON.parse(JSON.stringify(profile.settings));
+                        this.editingProfileId = duplicate.id;
+                        await this.pluginCore.saveSettings();
+                        this.renderProviderSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(settings.providerProfiles.length > 1 ? 'Delete profile' : 'The last profile cannot be deleted')
+                    .setDisabled(settings.providerProfiles.length <= 1)
+                    .onClick(async () => {
+                        if (settings.providerProfiles.length <= 1) return;
+                        settings.providerProfiles = settings.providerProfiles.filter(other => other.id !== profile.id);
+                        if (settings.activeProfileId === profile.id) {
+                            settings.activeProfileId = settings.providerProfiles[0].id;
+                        }
+                        const storedSecretName = getStoredSecretName(profile.settings.apiKey || '');
+                        if (storedSecretName) {
+                            await this.pluginCore.secretStore.deleteUnreferenced(storedSecretName, settings.providerProfiles);
+                        }
+                        this.clearModelList(profile.id);
+                        await this.pluginCore.saveSettings();
+                        this.renderProviderSettings();
+                    }));
+            if (profile === editingProfile) {
+                profileSetting.settingEl.addClass('obsigent-profile-editing');
             }
+        });
+
+        let newProfileType: LLMProviderType = 'openai';
+        new Setting(this.providerSettingsContainer)
+            .setName('Add Profile')
+            .setDesc('Creates a profile with the default settings of the chosen provider type.')
+            .addDropdown(dropdown => {
+                ALL_LLM_PROVIDERS.forEach(provider => {
+                    dropdown.addOption(provider, LLM_PROVIDER_NAMES[provider]);
+                });
+                dropdown.setValue(newProfileType);
+                dropdown.onChange((value) => {
+                    newProfileType = value as LLMProviderType;
+                });
+            })
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    const sameTypeCount = settings.providerProfiles.filter(profile => profile.providerType === newProfileType).length;
+                    const name = sameTypeCount > 0 ? `${LLM_PROVIDER_NAMES[newProfileType]} ${sameTypeCount + 1}` : LLM_PROVIDER_NAMES[newProfileType];
+                    this.editingProfileId = this.pluginCore.addProviderProfile(newProfileType, name).id;
+                    await this.pluginCore.saveSettings();
+                    this.renderProviderSettings();
+                }));
+    }
+
+    // Assigns a profile and model to each task, e.g. command analysis on a local model while the chat uses a hosted one
+    private renderTaskRouting(): void {
+        const settings = this.pluginCore.settings;
+        const taskDescriptions: Record<LLMTask, string> = {
+            chat: 'Answers in the chat view.',
+            commandAnalysis: 'Describes Obsidian commands for use as tools. Runs once per command, so a cheap or local model is a good fit.',
+        };
+
+        this.providerSettingsContainer.createEl('h3', { text: 'Task Routing' });
+
+        ALL_LLM_TASKS.forEach(task => {
+            const route = settings.taskRouting?.[task] || {};
+            const routedProfile = settings.providerProfiles.find(profile => profile.id === route.profileId) || this.pluginCore.getActiveProfile();
+
+            const updateRoute = async (update: TaskRoute) => {
+                const updatedRoute: TaskRoute = { ...settings.taskRouting?.[task], ...update };
+                const taskRouting = { ...settings.taskRouting };
+                if (updatedRoute.profileId || updatedRoute.model) {
+                    taskRouting[task] = updatedRoute;
+                } else {
+                    delete taskRouting[task];
+                }
+                settings.taskRouting = taskRouting;
+                await this.pluginCore.saveSettings();
+            };
 
-            apiKeySetting.addText(text => text
-                .setPlaceholder('sk-...')
-                .setValue(currentProviderSettings.apiKey || '')
+            new Setting(this.providerSettingsContainer)
+                .setName(LLM_TASK_NAMES[task])
+                .setDesc(`${taskDescriptions[task]} Leave the model empty to use the profile's default model.`)
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'Active profile');
+                    settings.providerProfiles.forEach(profile => {
+                        dropdown.addOption(profile.id, profile.name);
+                    });
+                    dropdown.setValue(route.profileId && settings.providerProfiles.some(profile => profile.id === route.profileId) ? route.profileId : '');
+                    dropdown.onChange(async (value) => {
+                        // A model of the previous profile rarely exists on the new one
+                        await updateRoute({ profileId: value || undefined, model: undefined });
+                        this.renderProviderSettings();
+                    });
+                })
+                .addText(text => text
+                    .setPlaceholder(routedProfile?.settings.defaultModel || 'Model')
+                    .setValue(route.model || '')
+                    .onChange(async (value) => {
+                        await updateRoute({ model: value.trim() || undefined });
+                    }));
+        });
+    }
+
+    private renderRetrySettings(): void {
+        this.providerSettingsContainer.createEl('h3', { text: 'Retries' });
+        new Setting(this.providerSettingsContainer)
+            .setName('Request Attempts')
+            .setDesc(`How often a request is sent when it is rate limited (429), the provider is overloaded (5xx, 529) or the network fails. Waits between attempts grow exponentially and follow the provider's Retry-After. 1 disables retries. Default: ${DEFAULT_MAX_REQUEST_ATTEMPTS}.`)
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_MAX_REQUEST_ATTEMPTS))
+                .setValue(String(this.pluginCore.settings.maxRequestAttempts ?? DEFAULT_MAX_REQUEST_ATTEMPTS))
                 .onChange(async (value) => {
-                    currentProviderSettings.apiKey = value;
+                    const attempts = parseInt(value.trim(), 10);
+                    this.pluginCore.settings.maxRequestAttempts = Number.isFinite(attempts) && attempts >= 1 ? Math.min(attempts, 10) : DEFAULT_MAX_REQUEST_ATTEMPTS;
                     await this.pluginCore.saveSettings();
                 }));
-        }
+    }
+
+    // Ordered profiles the chat falls back to when its provider is unreachable, returns a server error or rejects the key
+    private renderFallbackSettings(): void {
+        const settings = this.pluginCore.settings;
+        const fallbackProfiles = (settings.fallbackProfileIds || [])
+            .map(profileId => settings.providerProfiles.find(profile => profile.id === profileId))
+            .filter((profile): profile is ProviderProfile => !!profile);
+
+        const saveFallbacks = async (profileIds: string[]) => {
+            settings.fallbackProfileIds = profileIds;
+            await this.pluginCore.saveSettings();
+            this.renderProviderSettings();
+        };
+
+        this.providerSettingsContainer.createEl('h3', { text: 'Fallback Profiles' });
+        this.providerSettingsContainer.createEl('p', {
+            cls: 'setting-item-description',
+            text: 'If the chat provider fails before answering because it is unreachable, returns a server error or rejects the API key, the message is sent to these profiles in order.',
+        });
+
+        fallbackProfiles.forEach((profile, index) => {
+            const profileIds = fallbackProfiles.map(fallbackProfile => fallbackProfile.id);
+            new Setting(this.providerSettingsContainer)
+                .setName(`${index + 1}. ${profile.name}`)
+                .setDesc(`${LLM_PROVIDER_NAMES[profile.providerType] || profile.providerType} · ${profile.settings.defaultModel || 'No model set'}`)
+                .addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Try earlier')
+                    .setDisabled(index === 0)
+                    .onClick(async () => {
+                        if (index === 0) return;
+                        [profileIds[index - 1], profileIds[index]] = [profileIds[index], profileIds[index - 1]];
+                        await saveFallbacks(profileIds);
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('arrow-down')
+                    .setTooltip('Try later')
+                    .setDisabled(index === profileIds.length - 1)
+                    .onClick(async () => {
+                        if (index === profileIds.length - 1) return;
+                        [profileIds[index], profileIds[index + 1]] = [profileIds[index + 1], profileIds[index]];
+                        await saveFallbacks(profileIds);
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('x')
+                    .setTooltip('Remove from fallbacks')
+                    .onClick(async () => {
+                        await saveFallbacks(profileIds.filter(profileId => profileId !== profile.id));
+                    }));
+        });
+
+        const availableProfiles = settings.providerProfiles.filter(profile => !fallbackProfiles.includes(profile));
+        if (availableProfiles.length === 0) return;
+        let selectedProfileId = availableProfiles[0].id;
+        new Setting(this.providerSettingsContainer)
+            .setName('Add Fallback')
+            .addDropdown(dropdown => {
+                availableProfiles.forEach(profile => {
+                    dropdown.addOption(profile.id, profile.name);
+                });
+                dropdown.setValue(selectedProfileId);
+                dropdown.onChange((value) => {
+                    selectedProfileId = value;
+                });
+            })
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    await saveFallbacks([...fallbackProfiles.map(profile => profile.id), selectedProfileId]);
+                }));
+    }
+
+    // Redacted log of provider requests, shown in the request inspector and the developer console
+    private renderRequestLogSettings(): void {
+        this.providerSettingsContainer.createEl('h3', { text: 'Request Inspector' });
+        new Setting(this.providerSettingsContainer)
+            .setName('Log Level')
+            .setDesc('Which provider requests are listed in the request inspector and the developer console, with endpoint, model, status, timing, usage and errors. By default only failed requests are logged; contents only at the highest level. API keys and custom header and query parameter values are always redacted.')
+            .addDropdown(dropdown => {
+                (Object.keys(REQUEST_LOG_LEVEL_NAMES) as RequestLogLevel[]).forEach(level => {
+                    dropdown.addOption(level, REQUEST_LOG_LEVEL_NAMES[level]);
+                });
+                dropdown.setValue(this.pluginCore.settings.requestLogLevel || DEFAULT_REQUEST_LOG_LEVEL);
+                dropdown.onChange(async (value) => {
+                    this.pluginCore.settings.requestLogLevel = value as RequestLogLevel;
+                    await this.pluginCore.saveSettings();
+                });
+            })
+            .addButton(button => button
+                .setButtonText('Open Inspector')
+                .onClick(() => new RequestInspectorModal(this.app, this.pluginCore.requestLog).open()));
+    }
 
+    // Recording mode for bug reports and offline tests; the files are played back with a replay profile
+    private renderRecordingSettings(): void {
+        this.providerSettingsContainer.createEl('h3', { text: 'Recording' });
+        const fixturePath = this.pluginCore.providerRecorder.getFixturePath();
         new Setting(this.providerSettingsContainer)
-            .setName('Default Model')
-            .setDesc(`Enter the default model to use for ${LLM_PROVIDER_NAMES[selectedProvider]}.`)
+            .setName('Record Provider Requests')
+            .setDesc(`Writes every request and its streamed response, including tool calls and timing, to a fixture file in the plugin folder. Add a "${LLM_PROVIDER_NAMES.replay}" profile to play it back without a network connection. Fixtures contain your conversations, so review them before sharing. API keys are not recorded.${fixturePath ? ` Current file: ${fixturePath}` : ''}`)
+            .addToggle(toggle => toggle
+                .setValue(!!this.pluginCore.settings.recordProviderRequests)
+                .onChange(async (value) => {
+                    this.pluginCore.settings.recordProviderRequests = value;
+                    // Turning recording on again starts a new file
+                    this.pluginCore.providerRecorder.endSession();
+                    await this.pluginCore.saveSettings();
+                    this.pluginCore.updateActiveLLMProvider();
+                    this.renderProviderSettings();
+                }));
+    }
+
+    private renderProfileSettings(profile: ProviderProfile): void {
+        const selectedProvider = profile.providerType;
+        const currentProviderSettings = profile.settings;
+
+        this.providerSettingsContainer.createEl('h3', { text: `${profile.name} Settings` });
+
+        new Setting(this.providerSettingsContainer)
+            .setName('Profile Name')
+            .setDesc(`Shown in the chat view. Provider type: ${LLM_PROVIDER_NAMES[selectedProvider] || selectedProvider}.`)
             .addText(text => text
-                .setPlaceholder('e.g., gpt-3.5-turbo, claude-3-opus-20240229')
-                .setValue(currentProviderSettings.defaultModel || '')
+                .setValue(profile.name)
                 .onChange(async (value) => {
-                    currentProviderSettings.defaultModel = value;
+                    profile.name = value.trim() || LLM_PROVIDER_NAMES[selectedProvider];
                     await this.pluginCore.saveSettings();
                 }));
 
-        if (selectedProvider === 'openai' || selectedProvider === 'ollama') {
+        if (selectedProvider !== 'ollama' && selectedProvider !== 'replay') {
+            this.renderApiKeySetting(profile);
+        }
+
+        if (selectedProvider === 'openai') {
+            new Setting(this.providerSettingsContainer)
+                .setName('Azure OpenAI')
+                .setDesc('Send the API key in an api-key header and address the model as a deployment of your Azure OpenAI resource.')
+                .addToggle(toggle => toggle
+                    .setValue(!!currentProviderSettings.azure)
+                    .onChange(async (value) => {
+                        currentProviderSettings.azure = value || undefined;
+                        this.clearModelList(profile.id);
+                        await this.pluginCore.saveSettings();
+                        this.renderProviderSettings();
+                    }));
+
+            if (currentProviderSettings.azure) {
+                new Setting(this.providerSettingsContainer)
+                    .setName('Azure API Version')
+                    .setDesc(`Sent as the api-version query parameter. Default: ${DEFAULT_AZURE_API_VERSION}.`)
+                    .addText(text => text
+                        .setPlaceholder(DEFAULT_AZURE_API_VERSION)
+                        .setValue(currentProviderSettings.azureApiVersion || '')
+                        .onChange(async (value) => {
+                            currentProviderSettings.azureApiVersion = value.trim() || undefined;
+                            await this.pluginCore.saveSettings();
+                        }));
+            }
+        }
+
+        if (selectedProvider === 'replay') {
+            new Setting(this.providerSettingsContainer)
+                .setName('Fixture File')
+                .setDesc(`Vault-relative path of the recording to play back. Recordings are saved in ${this.pluginCore.providerRecorder.getRecordingsFolder()}. Each request is answered with the recorded response to the same conversation.`)
+                .addText(text => text
+                    .setPlaceholder(`${this.pluginCore.providerRecorder.getRecordingsFolder()}/recording-....json`)
+                    .setValue(currentProviderSettings.fixturePath || '')
+                    .onChange(async (value) => {
+                        currentProviderSettings.fixturePath = value.trim();
+                        await this.pluginCore.saveSettings();
+                    }));
+        } else {
+            this.renderModelSetting(profile);
+        }
+
+        if (selectedProvider === 'openai' || selectedProvider === 'ollama' || selectedProvider === 'google' || selectedProvider === 'cohere') {
             let placeholderEndpoint = '';
             let descriptionText = '';
 
-            if (selectedProvider === 'openai') {
+            if (selectedProvider === 'openai' && currentProviderSettings.azure) {
+                placeholderEndpoint = 'https://my-resource.openai.azure.com';
+                descriptionText = `URL of your Azure OpenAI resource, e.g. ${placeholderEndpoint}. The default model is used as the deployment name. A full deployment URL is used as it is.`;
+            } else if (selectedProvider === 'openai') {
                 placeholderEndpoint = 'https://api.openai.com/v1/chat/completions';
                 descriptionText = `Enter the full chat completions URL. For OpenAI: ${placeholderEndpoint}. For local servers (e.g., LM Studio): http://localhost:PORT/v1/chat/completions.`;
+            } else if (selectedProvider === 'google') {
+                placeholderEndpoint = 'https://generativelanguage.googleapis.com';
+                descriptionText = `Base URL of the Gemini API. Default: ${placeholderEndpoint}. Override for proxies or a local stand-in server.`;
+            } else if (selectedProvider === 'cohere') {
+                placeholderEndpoint = 'https://api.cohere.com';
+                descriptionText = `Base URL of the Cohere API. Default: ${placeholderEndpoint}.`;
             } else {
                 placeholderEndpoint = 'http://localhost:11434/api/chat';
                 descriptionText = `Default: ${placeholderEndpoint}. Override if your Ollama instance uses a different URL.`;
@@ -118,9 +443,555 @@ export class ObsigentSettingTab extends PluginSettingTab {
                     .setValue(currentProviderSettings.apiEndpoint || '')
                     .onChange(async (value) => {
                         currentProviderSettings.apiEndpoint = value;
+                        this.clearModelList(profile.id);
+                        await this.pluginCore.saveSettings();
+                    }));
+        }
+
+        if (selectedProvider === 'openai') {
+            this.renderRequestCustomizationSettings(profile);
+        }
+
+        if (selectedProvider === 'openai' || selectedProvider === 'anthropic' || selectedProvider === 'google' || selectedProvider === 'cohere') {
+            this.renderToolChoiceSettings(currentProviderSettings);
+        } else if (selectedProvider === 'ollama') {
+            // Ollama's /api/chat has no tool_choice parameter, tools can only be offered or withheld
+            this.renderToolChoiceSettings(currentProviderSettings, ['auto', 'none']);
+        }
+
+        this.renderCapabilitySettings(selectedProvider, currentProviderSettings);
+
+        if (selectedProvider === 'anthropic' || selectedProvider === 'google') {
+            // OpenAI-compatible servers, Ollama and Cohere decide on their own how much to think
+            new Setting(this.providerSettingsContainer)
+                .setName('Extended Thinking Budget')
+                .setDesc(selectedProvider === 'anthropic'
+                    ? 'Tokens Claude may spend thinking before it answers (at least 1024). Leave empty to disable extended thinking. Only used for reasoning models.'
+                    : 'Tokens Gemini may spend thinking before it answers. Leave empty for the model default, 0 disables thinking where the model allows it. Only used for reasoning models.')
+                .addText(text => text
+                    .setPlaceholder(selectedProvider === 'anthropic' ? '4096' : 'Model default')
+                    .setValue(currentProviderSettings.thinkingBudget !== undefined ? String(currentProviderSettings.thinkingBudget) : '')
+                    .onChange(async (value) => {
+                        const thinkingBudget = parseInt(value.trim(), 10);
+                        currentProviderSettings.thinkingBudget = Number.isFinite(thinkingBudget) && thinkingBudget >= 0 ? thinkingBudget : undefined;
                         await this.pluginCore.saveSettings();
                     }));
         }
+
+        if (selectedProvider === 'anthropic') {
+            new Setting(this.providerSettingsContainer)
+                .setName('Prompt Caching')
+                .setDesc('Caches the tool definitions, system prompt and conversation between turns. Cached input costs a tenth of the input price to read; writing it to the cache costs 25% more than regular input.')
+                .addToggle(toggle => toggle
+                    .setValue(currentProviderSettings.promptCaching !== false)
+                    .onChange(async (value) => {
+                        currentProviderSettings.promptCaching = value;
+                        await this.pluginCore.saveSettings();
+                    }));
+        }
+
+        if (SUPPORTED_SAMPLING_PARAMETERS[selectedProvider].length > 0) {
+            this.renderSamplingSettings(profile);
+        }
+
+        this.renderConnectionTest(profile);
+    }
+
+    // The key itself is kept in the secret store and never shown again; the field only shows a masked hint.
+    // Environment variable references are not secret and are shown as they are.
+    private renderApiKeySetting(profile: ProviderProfile): void {
+        const providerSettings = profile.settings;
+        const storedSecretName = getStoredSecretName(providerSettings.apiKey || '');
+        const storedApiKey = storedSecretName ? this.pluginCore.secretStore.get(storedSecretName) : undefined;
+        const isReference = !!providerSettings.apiKey && !storedSecretName;
+
+        const descriptionFragment = document.createDocumentFragment();
+        descriptionFragment.appendText(profile.providerType === 'openai'
+            ? `Enter your API key for ${LLM_PROVIDER_NAMES[profile.providerType]}. Optional for some local OpenAI-compatible servers (e.g., LM Studio). `
+            : `Enter your API key for ${LLM_PROVIDER_NAMES[profile.providerType]}. `);
+        descriptionFragment.appendText(`The key is saved in ${this.pluginCore.secretStore.getFilePath()}, which is neither synced nor part of data.json. Enter {{env:NAME}} to read it from the environment variable NAME instead.`);
+        if (storedSecretName && storedApiKey === undefined) {
+            descriptionFragment.createDiv({ cls: 'mod-warning', text: 'The key of this profile is not stored on this device. Enter it again.' });
+        }
+
+        const apiKeySetting = new Setting(this.providerSettingsContainer)
+            .setName('API Key')
+            .setDesc(descriptionFragment);
+
+        apiKeySetting.addText(text => {
+            text.inputEl.type = isReference ? 'text' : 'password';
+            text.setPlaceholder(storedApiKey !== undefined ? maskSecret(storedApiKey) : 'sk-...')
+                .setValue(isReference ? providerSettings.apiKey || '' : '')
+                // Clearing the field keeps the key; it is removed with the button next to it
+                .onChange(async (value) => {
+                    if (!value.trim()) return;
+                    if (await this.pluginCore.secretStore.setProfileApiKey(profile, value, this.pluginCore.settings.providerProfiles)) {
+                        this.clearModelList(profile.id);
+                        await this.pluginCore.saveSettings();
+                    }
+                });
+        });
+
+        if (providerSettings.apiKey) {
+            apiKeySetting.addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Remove API key')
+                .onClick(async () => {
+                    await this.pluginCore.secretStore.setProfileApiKey(profile, '', this.pluginCore.settings.providerProfiles);
+                    this.clearModelList(profile.id);
+                    await this.pluginCore.saveSettings();
+                    this.renderProviderSettings();
+                }));
+        }
+    }
+
+    // Extra headers and query parameters, e.g. for gateways in front of the API
+    private renderRequestCustomizationSettings(profile: ProviderProfile): void {
+        this.renderRequestParameterList(
+            profile,
+            'customHeaders',
+            'Custom Headers',
+            'Sent with every request of this profile and replace headers of the same name, including the API key header. Use {{env:NAME}} in a value to insert the environment variable NAME, or {{secret:NAME}} for a secret in the secret store file, instead of storing a secret here.',
+        );
+        this.renderRequestParameterList(
+            profile,
+            'customQueryParameters',
+            'Custom Query Parameters',
+            'Added to the URL of every request of this profile. Values can use {{env:NAME}} and {{secret:NAME}} as well.',
+        );
+    }
+
+    private renderRequestParameterList(profile: ProviderProfile, key: 'customHeaders' | 'customQueryParameters', title: string, description: string): void {
+        const parameters = profile.settings[key] || [];
+        const saveParameters = async (updatedParameters: RequestParameter[]) => {
+            profile.settings[key] = updatedParameters.length > 0 ? updatedParameters : undefined;
+            await this.pluginCore.saveSettings();
+        };
+
+        this.providerSettingsContainer.createEl('h4', { text: title });
+        this.providerSettingsContainer.createEl('p', { cls: 'setting-item-description', text: description });
+
+        parameters.forEach((parameter, index) => {
+            new Setting(this.providerSettingsContainer)
+                .addText(text => text
+                    .setPlaceholder('Name')
+                    .setValue(parameter.name)
+                    .onChange(async (value) => {
+                        parameter.name = value;
+                        await saveParameters(parameters);
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Value')
+                    .setValue(parameter.value)
+                    .onChange(async (value) => {
+                        parameter.value = value;
+                        await saveParameters(parameters);
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('x')
+                    .setTooltip('Remove')
+                    .onClick(async () => {
+                        await saveParameters(parameters.filter((_, i) => i !== index));
+                        this.renderProviderSettings();
+                    }));
+        });
+
+        new Setting(this.providerSettingsContainer)
+            .addButton(button => button
+                .setButtonText(key === 'customHeaders' ? 'Add Header' : 'Add Query Parameter')
+                .onClick(async () => {
+                    await saveParameters([...parameters, { name: '', value: '' }]);
+                    this.renderProviderSettings();
+                }));
+    }
+
+    private renderSamplingSettings(profile: ProviderProfile): void {
+        const providerType = profile.providerType;
+        this.providerSettingsContainer.createEl('h4', { text: 'Sampling Parameters' });
+        this.providerSettingsContainer.createEl('p', {
+            text: 'Leave a field empty to use the default of the API or model.',
+            cls: 'setting-item-description',
+        });
+
+        for (const parameter of SUPPORTED_SAMPLING_PARAMETERS[providerType]) {
+            const setting = new Setting(this.providerSettingsContainer)
+                .setName(SAMPLING_PARAMETER_NAMES[parameter]);
+            const setDescription = (error?: string) => {
+                const descriptionFragment = document.createDocumentFragment();
+                descriptionFragment.appendText(getSamplingParameterDescription(providerType, parameter));
+                if (error) {
+                    descriptionFragment.createDiv({ cls: 'mod-warning', text: `${error} The previous value is kept.` });
+                }
+                setting.setDesc(descriptionFragment);
+            };
+            setDescription();
+
+            setting.addText(text => text
+                .setPlaceholder(this.getSamplingPlaceholder(providerType, parameter))
+                .setValue(formatSamplingParameter(profile.settings.sampling?.[parameter]))
+                .onChange(async (value) => {
+                    const { value: parsedValue, error } = parseSamplingParameter(providerType, parameter, value);
+                    setDescription(error);
+                    // Invalid input is not saved, so requests never fail because of a half-typed value
+                    if (error) return;
+                    const sampling: SamplingParameters = { ...profile.settings.sampling };
+                    if (parsedValue === undefined) {
+                        delete sampling[parameter];
+                    } else {
+                        (sampling as Record<SamplingParameter, SamplingParameterValue>)[parameter] = parsedValue;
+                    }
+                    profile.settings.sampling = Object.keys(sampling).length > 0 ? sampling : undefined;
+                    await this.pluginCore.saveSettings();
+                }));
+        }
+    }
+
+    private getSamplingPlaceholder(providerType: LLMProviderType, parameter: SamplingParameter): string {
+        if (providerType === 'anthropic' && parameter === 'maxTokens') return '4096';
+        if (providerType === 'anthropic' && parameter === 'temperature') return '0.7';
+        if (parameter === 'stopSequences') return 'e.g., ###, END';
+        if (parameter === 'keepAlive') return '5m';
+        return 'Default';
+    }
+
+    private renderConnectionTest(profile: ProviderProfile): void {
+        const testSetting = new Setting(this.providerSettingsContainer)
+            .setName('Test Connection')
+            .setDesc('Checks the endpoint, API key, model and tool support with a few short requests.');
+        const reportEl = this.providerSettingsContainer.createDiv({ cls: 'obsigent-validation-report' });
+
+        testSetting.addButton(button => button
+            .setButtonText('Test connection')
+            .onClick(async () => {
+                button.setDisabled(true);
+                button.setButtonText('Testing...');
+                reportEl.empty();
+                try {
+                    this.renderValidationReport(reportEl, await this.pluginCore.testProviderConnection(profile.id));
+                } catch (error) {
+                    console.error('Obsigent: Connection test failed unexpectedly:', error);
+                    this.renderValidationReport(reportEl, {
+                        ok: false,
+                        steps: [{ name: 'Connection test', status: 'fail', message: error instanceof Error ? error.message : String(error) }],
+                    });
+                } finally {
+                    button.setDisabled(false);
+                    button.setButtonText('Test connection');
+                }
+            }));
+    }
+
+    private renderValidationReport(reportEl: HTMLElement, report: ValidationReport): void {
+        const statusIcons: Record<ValidationStepStatus, string> = { pass: 'check', warn: 'alert-triangle', fail: 'x', skip: 'minus' };
+
+        reportEl.empty();
+        reportEl.createDiv({
+            cls: `obsigent-validation-summary ${report.ok ? 'is-ok' : 'is-failed'}`,
+            text: report.ok ? 'Connection test passed.' : `Connection test failed at "${report.steps.find(step => step.status === 'fail')?.name}".`,
+        });
+        report.steps.forEach(step => {
+            const stepEl = reportEl.createDiv({ cls: `obsigent-validation-step is-${step.status}` });
+            setIcon(stepEl.createSpan({ cls: 'obsigent-validation-step-icon' }), statusIcons[step.status]);
+            stepEl.createSpan({ cls: 'obsigent-validation-step-name', text: step.name });
+            stepEl.createSpan({ cls: 'obsigent-validation-step-message', text: step.message });
+        });
+    }
+
+    // Capabilities are detected from the model name; these overrides cover models the detection does not know
+    private renderCapabilitySettings(selectedProvider: LLMProviderType, currentProviderSettings: ProviderSettings): void {
+        const detected = detectModelCapabilities(selectedProvider, currentProviderSettings.defaultModel);
+        const overrides = currentProviderSettings.capabilityOverrides || {};
+
+        const updateOverride = async <K extends keyof ProviderCapabilities>(key: K, value: ProviderCapabilities[K] | undefined) => {
+            const updatedOverrides: Partial<ProviderCapabilities> = { ...currentProviderSettings.capabilityOverrides };
+            if (value === undefined) {
+                delete updatedOverrides[key];
+            } else {
+                updatedOverrides[key] = value;
+            }
+            currentProviderSettings.capabilityOverrides = Object.keys(updatedOverrides).length > 0 ? updatedOverrides : undefined;
+            await this.pluginCore.saveSettings();
+        };
+
+        const booleanCapabilities: { key: 'tools' | 'vision' | 'jsonMode' | 'reasoning'; name: string; desc: string }[] = [
+            { key: 'tools', name: 'Tool Support', desc: 'Whether the model can call vault tools and Obsidian commands. Without it, no tools are sent and commands are not analyzed.' },
+            { key: 'vision', name: 'Image Input', desc: 'Whether the model accepts images.' },
+            { key: 'jsonMode', name: 'JSON Output', desc: 'Whether the model supports structured JSON output.' },
+            { key: 'reasoning', name: 'Reasoning', desc: 'Whether the model thinks before answering. Reasoning models get more time to start responding.' },
+        ];
+        booleanCapabilities.forEach(({ key, name, desc }) => {
+            new Setting(this.providerSettingsContainer)
+                .setName(name)
+                .setDesc(`${desc} Detected for this model: ${detected[key] ? 'yes' : 'no'}.`)
+                .addDropdown(dropdown => {
+                    dropdown.addOption('auto', 'Auto-detect');
+                    dropdown.addOption('enabled', 'Enabled');
+                    dropdown.addOption('disabled', 'Disabled');
+                    dropdown.setValue(overrides[key] === undefined ? 'auto' : (overrides[key] ? 'enabled' : 'disabled'));
+                    dropdown.onChange(async (value) => {
+                        await updateOverride(key, value === 'auto' ? undefined : value === 'enabled');
+                    });
+                });
+        });
+
+        new Setting(this.providerSettingsContainer)
+            .setName('Context Window')
+            .setDesc(`Maximum number of tokens the model accepts. Leave empty to use the detected value (${detected.contextWindow}).`)
+            .addText(text => text
+                .setPlaceholder(String(detected.contextWindow))
+                .setValue(overrides.contextWindow !== undefined ? String(overrides.contextWindow) : '')
+                .onChange(async (value) => {
+                    const contextWindow = parseInt(value.trim(), 10);
+                    await updateOverride('contextWindow', Number.isFinite(contextWindow) && contextWindow > 0 ? contextWindow : undefined);
+                }));
+    }
+
+    // Model field with suggestions from the provider's model list. Any model ID can still be typed in,
+    // e.g. for fine-tuned models or servers that do not list their models.
+    private renderModelSetting(profile: ProviderProfile): void {
+        const selectedProvider = profile.providerType;
+        const currentProviderSettings = profile.settings;
+        const provider = this.pluginCore.createProviderForProfile(profile);
+        const listModels = provider.canListModels?.(this.pluginCore.settings) !== false ? provider.listModels?.bind(provider) : undefined;
+        const canListModels = !!listModels;
+
+        const modelSetting = new Setting(this.providerSettingsContainer)
+            .setName('Default Model');
+
+        const updateDescription = () => {
+            const models = this.availableModels[profile.id];
+            const error = this.modelListErrors[profile.id];
+            const model = (currentProviderSettings.defaultModel || '').trim();
+            const descriptionFragment = document.createDocumentFragment();
+
+            if (selectedProvider === 'openai' && currentProviderSettings.azure) {
+                descriptionFragment.appendText('Enter the name of your Azure OpenAI deployment.');
+            } else if (!canListModels) {
+                descriptionFragment.appendText(`Enter the default model to use for ${LLM_PROVIDER_NAMES[selectedProvider]}.`);
+            } else if (this.loadingModelsFor === profile.id) {
+                descriptionFragment.appendText('Loading available models...');
+            } else if (error) {
+                descriptionFragment.appendText(`Could not load the model list (${error}). Enter the model ID manually.`);
+            } else if (models) {
+                descriptionFragment.appendText(`${models.length} model(s) available. Type to search, or enter any model ID.`);
+            }
+
+            // Catch typos before they show up as a 404 in the chat
+            if (models && models.length > 0 && model && !models.includes(model)) {
+                descriptionFragment.createDiv({
+                    cls: 'mod-warning',
+                    text: `"${model}" is not in the model list of ${profile.name}. Check the ID for typos.`,
+                });
+            }
+            modelSetting.setDesc(descriptionFragment);
+        };
+
+        let modelSuggest: ModelSuggest | null = null;
+        modelSetting.addText(text => {
+            text
+                .setPlaceholder('e.g., gpt-3.5-turbo, claude-3-opus-20240229, gemini-1.5-flash')
+                .setValue(currentProviderSettings.defaultModel || '')
+                .onChange(async (value) => {
+                    currentProviderSettings.defaultModel = value;
+                    updateDescription();
+                    await this.pluginCore.saveSettings();
+                });
+            if (canListModels) {
+                modelSuggest = new ModelSuggest(this.app, text.inputEl, async (model) => {
+                    currentProviderSettings.defaultModel = model;
+                    updateDescription();
+                    await this.pluginCore.saveSettings();
+                });
+                modelSuggest.setModels(this.availableModels[profile.id] || []);
+            }
+        });
+
+        if (listModels) {
+            const loadModels = async () => {
+                this.loadingModelsFor = profile.id;
+                delete this.modelListErrors[profile.id];
+                updateDescription();
+                try {
+                    this.availableModels[profile.id] = await listModels(this.pluginCore.settings);
+                } catch (error) {
+                    delete this.availableModels[profile.id];
+                    this.modelListErrors[profile.id] = error instanceof Error ? error.message : String(error);
+                } finally {
+                    if (this.loadingModelsFor === profile.id) {
+                        this.loadingModelsFor = null;
+                    }
+                }
+                if (modelSetting.settingEl.isConnected) {
+                    modelSuggest?.setModels(this.availableModels[profile.id] || []);
+                    updateDescription();
+                } else if (this.providerSettingsContainer.isConnected && this.getEditingProfile()?.id === profile.id) {
+                    // The settings were re-rendered while loading; show the result in the current field
+                    this.renderProviderSettings();
+                }
+            };
+
+            modelSetting.addExtraButton(button => button
+                .setIcon('refresh-cw')
+                .setTooltip('Reload available models')
+                .onClick(() => loadModels()));
+
+            if (!this.availableModels[profile.id] && !this.modelListErrors[profile.id] && this.loadingModelsFor !== profile.id) {
+                loadModels();
+            }
+        }
+        updateDescription();
+    }
+
+    // Forgets the fetched models, e.g. after the API key or endpoint changed; they are fetched again on the next render
+    private clearModelList(profileId: string): void {
+        delete this.availableModels[profileId];
+        delete this.modelListErrors[profileId];
+    }
+
+    private renderToolChoiceSettings(currentProviderSettings: ProviderSettings, supportedModes?: ToolChoiceMode[]): void {
+        const modes = supportedModes || (Object.keys(TOOL_CHOICE_MODE_NAMES) as ToolChoiceMode[]);
+        const toolChoice = currentProviderSettings.toolChoice && modes.includes(currentProviderSettings.toolChoice) ? currentProviderSettings.toolChoice : 'auto';
+
+        new Setting(this.providerSettingsContainer)
+            .setName('Tool Choice')
+            .setDesc('Controls whether the model may call vault tools and Obsidian commands.')
+            .addDropdown(dropdown => {
+                modes.forEach(mode => {
+                    dropdown.addOption(mode, TOOL_CHOICE_MODE_NAMES[mode]);
+                });
+                dropdown.setValue(toolChoice);
+                dropdown.onChange(async (value) => {
+                    currentProviderSettings.toolChoice = value as ToolChoiceMode;
+                    await this.pluginCore.saveSettings();
+                    this.renderProviderSettings();
+                });
+            });
+
+        if (toolChoice === 'function') {
+            new Setting(this.providerSettingsContainer)
+                .setName('Forced Tool')
+                .setDesc('Name of the tool the model must call (e.g., obsidian_searchNotes). Falls back to "Auto" if the tool is not available.')
+                .addText(text => text
+                    .setPlaceholder('obsidian_searchNotes')
+                    .setValue(currentProviderSettings.toolChoiceFunction || '')
+                    .onChange(async (value) => {
+                        currentProviderSettings.toolChoiceFunction = value.trim();
+                        await this.pluginCore.saveSettings();
+                    }));
+        }
+    }
+
+    private renderCostSettings(): void {
+        this.costSettingsContainer.empty();
+        const settings = this.pluginCore.settings;
+
+        new Setting(this.costSettingsContainer)
+            .setName('Spent This Month')
+            .setDesc(`$${this.pluginCore.costTracker.getMonthlyCost().toFixed(4)}, computed from the reported token usage and the prices below. Models without a price are not counted.`);
+
+        new Setting(this.costSettingsContainer)
+            .setName('Monthly Spending Cap (USD)')
+            .setDesc('New requests are blocked once this month\'s spend reaches the cap. Requests to cloud models without a price below are not counted; a warning is shown when one is used. Leave empty for no cap.')
+            .addText(text => text
+                .setPlaceholder('e.g., 10')
+                .setValue(settings.monthlySpendingCap !== undefined ? String(settings.monthlySpendingCap) : '')
+                .onChange(async (value) => {
+                    const cap = parseFloat(value.trim());
+                    settings.monthlySpendingCap = Number.isFinite(cap) && cap > 0 ? cap : undefined;
+                    await this.pluginCore.saveSettings();
+                }));
+
+        this.costSettingsContainer.createEl('h3', { text: 'Model Prices' });
+        this.costSettingsContainer.createEl('p', {
+            text: 'Prices in USD per million tokens: input, output, cache read and cache write. A model entry also prices model IDs that start with it (e.g., "gpt-4o" covers "gpt-4o-2024-08-06"); the longest match wins. Empty cache prices fall back to the input price.',
+            cls: 'setting-item-description',
+        });
+
+        if (!settings.modelPricing) {
+            settings.modelPricing = [];
+        }
+        const pricing = settings.modelPricing;
+
+        // Optional prices are cleared with an empty field; required prices keep their last valid value
+        const addPriceInput = (setting: Setting, price: ModelPrice, key: keyof Pick<ModelPrice, 'inputPerMillion' | 'outputPerMillion' | 'cacheReadPerMillion' | 'cacheWritePerMillion'>, placeholder: string) => {
+            setting.addText(text => {
+                text.inputEl.style.width = '70px';
+                text.inputEl.setAttribute('aria-label', placeholder);
+                text
+                    .setPlaceholder(placeholder)
+                    .setValue(price[key] !== undefined ? String(price[key]) : '')
+                    .onChange(async (value) => {
+                        const parsed = parseFloat(value.trim());
+                        if (Number.isFinite(parsed) && parsed >= 0) {
+                            price[key] = parsed;
+                        } else if (key === 'cacheReadPerMillion' || key === 'cacheWritePerMillion') {
+                            price[key] = undefined;
+                        } else {
+                            return;
+                        }
+                        await this.pluginCore.saveSettings();
+                    });
+            });
+        };
+
+        pricing.forEach((price, index) => {
+            const priceSetting = new Setting(this.costSettingsContainer)
+                .setName(price.model)
+                .setDesc(LLM_PROVIDER_NAMES[price.provider] || price.provider);
+            addPriceInput(priceSetting, price, 'inputPerMillion', 'Input');
+            addPriceInput(priceSetting, price, 'outputPerMillion', 'Output');
+            addPriceInput(priceSetting, price, 'cacheReadPerMillion', 'Cache read');
+            addPriceInput(priceSetting, price, 'cacheWritePerMillion', 'Cache write');
+            priceSetting.addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Remove price')
+                .onClick(async () => {
+                    pricing.splice(index, 1);
+                    await this.pluginCore.saveSettings();
+                    this.renderCostSettings();
+                }));
+        });
+
+        let newPriceProvider: LLMProviderType = this.pluginCore.getActiveProfile()?.providerType || 'openai';
+        let newPriceModel = '';
+        new Setting(this.costSettingsContainer)
+            .setName('Add Model Price')
+            .addDropdown(dropdown => {
+                ALL_LLM_PROVIDERS.forEach(provider => {
+                    dropdown.addOption(provider, LLM_PROVIDER_NAMES[provider]);
+                });
+                dropdown.setValue(newPriceProvider);
+                dropdown.onChange(value => {
+                    newPriceProvider = value as LLMProviderType;
+                });
+            })
+            .addText(text => text
+                .setPlaceholder('Model ID')
+                .onChange(value => {
+                    newPriceModel = value.trim();
+                }))
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    if (!newPriceModel) {
+                        new Notice('Enter a model ID to add a price for.');
+                        return;
+                    }
+                    pricing.push({ provider: newPriceProvider, model: newPriceModel, inputPerMillion: 0, outputPerMillion: 0 });
+                    await this.pluginCore.saveSettings();
+                    this.renderCostSettings();
+                }));
+
+        new Setting(this.costSettingsContainer)
+            .setName('Restore Default Prices')
+            .setDesc('Replaces the table above with the built-in list prices.')
+            .addButton(button => button
+                .setButtonText('Restore defaults')
+                .onClick(async () => {
+                    settings.modelPricing = DEFAULT_MODEL_PRICING.map(price => ({ ...price }));
+                    await this.pluginCore.saveSettings();
+                    this.renderCostSettings();
+                }));
     }
 
     private renderMcpSections(): void {
@@ -0,0 +1,11 @@
+// JSON schema subset used for structured output and generated tool schemas; validated in api/StructuredOutput.ts
+
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    enum?: (string | number | boolean)[];
+}
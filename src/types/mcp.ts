@@ -2,6 +2,8 @@
 // Adapted from Obsigent's MCP types
 // Original source or inspiration can be noted here if applicable
 
+import { JsonSchema } from './jsonSchema';
+
 export const DEFAULT_MCP_TIMEOUT_SECONDS = 60;
 export const MIN_MCP_TIMEOUT_SECONDS = 1;
 export type McpMode = "full" | "server-use-only" | "off";
@@ -33,7 +35,7 @@ export interface McpToolParameter {
 
 export interface McpToolSchemaProperties {
     [key: string]: {
-        type: string;
+        type: string | string[]; // A list for unions such as ["string", "null"]
         description?: string;
         items?: { type: string; enum?: string[] } | { enum: string[] };
         enum?: string[];
@@ -62,6 +64,50 @@ export interface GeneratedCommandMcpDetails {
     annotations: McpToolAnnotations;
 }
 
+// Keyed by the fields of McpToolAnnotations, like the details schema below
+const MCP_TOOL_ANNOTATIONS_SCHEMA_PROPERTIES: Record<keyof McpToolAnnotations, JsonSchema> = {
+    title: { type: 'string', description: 'The human-readable command name.' },
+    readOnlyHint: { type: 'boolean', description: 'True if the command only reads data or state.' },
+    destructiveHint: { type: 'boolean', description: 'True if the command may cause irreversible data loss.' },
+    idempotentHint: { type: 'boolean', description: 'True if running the command twice has the same effect as running it once.' },
+    openWorldHint: { type: 'boolean', description: 'True if the command interacts with external systems or the internet.' },
+};
+
+// JSON schema of GeneratedCommandMcpDetails, used to constrain and validate the LLM output.
+// The property maps are keyed by the interfaces' fields, so a field added there does not compile until it is described here.
+export const GENERATED_COMMAND_MCP_DETAILS_SCHEMA: JsonSchema & { properties: Record<keyof GeneratedCommandMcpDetails, JsonSchema> } = {
+    type: 'object',
+    properties: {
+        description: { type: 'string', description: 'Concise, action-oriented description of what the command does.' },
+        inputSchema: {
+            type: 'object',
+            description: 'JSON schema of the parameters the command takes. Most commands take none: empty properties.',
+            properties: {
+                type: { type: 'string', enum: ['object'] },
+                properties: {
+                    type: 'object',
+                    additionalProperties: {
+                        type: 'object',
+                        properties: {
+                            type: { type: 'string' },
+                            description: { type: 'string' },
+                        },
+                        required: ['type'],
+                    },
+                },
+                required: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['type', 'properties'],
+        },
+        annotations: {
+            type: 'object',
+            properties: MCP_TOOL_ANNOTATIONS_SCHEMA_PROPERTIES,
+            required: ['title'], // Missing hints default to false
+        },
+    },
+    required: ['description', 'inputSchema', 'annotations'],
+};
+
 export interface McpServer {
 	toolHiveToolName: string; // The unique name used by ToolHive (e.g., "stacklok/mcp-summary")
 	displayName?: string; // User-friendly display name, can be derived from marketplace item
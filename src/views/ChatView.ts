@@ -1,9 +1,23 @@
 // src/views/ChatView.ts
-import { ItemView, WorkspaceLeaf, setIcon, MarkdownRenderer, TextComponent } from 'obsidian'; // Added MarkdownRenderer, TextComponent
+import { ItemView, WorkspaceLeaf, setIcon, MarkdownRenderer, TextComponent, Notice, TFile, arrayBufferToBase64 } from 'obsidian'; // Added MarkdownRenderer, TextComponent
 import ObsigentPluginCore from '../main'; // Adjusted import path
+import { TokenUsage } from '../api/LLMProvider';
+import { RetryInfo } from '../api/RequestRetry';
+import { SUPPORTED_IMAGE_MEDIA_TYPES, getImageMediaType } from '../api/MessageContent';
+import { VaultImageSuggestModal } from '../components/VaultImageSuggestModal';
 
 export const CHAT_VIEW_TYPE = 'obsigent-chat-view';
 
+// Anthropic's limit per image; larger images are rejected before they are sent
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Shown in the "API Request" row of each provider request
+export interface ApiRequestInfo {
+  request?: string; // What was requested, e.g. the provider and model
+  usage?: TokenUsage; // Filled in once the provider reports it
+  cost?: number; // In USD
+}
+
 export class ChatView extends ItemView {
   private plugin: ObsigentPluginCore;
   private messagesContainer!: HTMLDivElement;
@@ -16,10 +30,15 @@ export class ChatView extends ItemView {
   private textInputWrapperEl!: HTMLDivElement;
   private controlsAndInputWrapperEl!: HTMLDivElement;
   private actionButtonsEl!: HTMLDivElement; // Container for send button
+  private modelInfoEl!: HTMLDivElement; // Active model and its capabilities, above the input
+  private attachmentsEl!: HTMLDivElement; // Images attached to the next message
+  private attachButtonEl!: HTMLButtonElement;
+  private pendingImages: string[] = []; // Data URLs of the attached images
 
   private isComposing: boolean = false; // Track composition state
   private isGenerating: boolean = false; // Track if AI is currently generating
   private currentAbortController: AbortController | null = null; // For stopping generation
+  private retryStatus: { statusEl: HTMLDivElement; intervalId: number } | null = null; // Countdown while a request waits to be retried
 
   constructor(leaf: WorkspaceLeaf, plugin: ObsigentPluginCore) {
     super(leaf);
@@ -51,6 +70,13 @@ export class ChatView extends ItemView {
     // Controls and Input Wrapper (at the bottom)
     this.controlsAndInputWrapperEl = viewContainer.createDiv({ cls: 'obsigent-controls-input-wrapper' });
 
+    // Model info bar (model name + capability badges)
+    this.modelInfoEl = this.controlsAndInputWrapperEl.createDiv({ cls: 'obsigent-model-info' });
+    this.refreshModelInfo();
+
+    // Images attached to the next message, shown as removable thumbnails
+    this.attachmentsEl = this.controlsAndInputWrapperEl.createDiv({ cls: 'obsigent-attachments' });
+
     // Input Area Container (Textarea + Action Buttons)
     this.inputAreaContainerEl = this.controlsAndInputWrapperEl.createDiv({ cls: 'obsigent-input-area-container' });
     
@@ -65,6 +91,13 @@ export class ChatView extends ItemView {
     // Action Buttons (Send)
     this.actionButtonsEl = this.inputAreaContainerEl.createDiv({ cls: 'obsigent-action-buttons' });
 
+    this.attachButtonEl = this.actionButtonsEl.createEl('button', { cls: 'obsigent-attach-button obsigent-action-button' });
+    setIcon(this.attachButtonEl, 'image-plus');
+    this.attachButtonEl.setAttribute('aria-label', 'Attach an image from the vault');
+    this.attachButtonEl.addEventListener('click', () => {
+      new VaultImageSuggestModal(this.app, (file) => this.attachVaultImage(file)).open();
+    });
+
     this.sendButtonEl = this.actionButtonsEl.createEl('button', { cls: 'obsigent-send-button obsigent-action-button' });
     setIcon(this.sendButtonEl, 'send');
     this.sendButtonEl.setAttribute('aria-label', 'Send message');
@@ -88,12 +121,68 @@ export class ChatView extends ItemView {
     this.promptInputEl.addEventListener('input', () => {
         this.adjustInputHeight();
     });
+
+    // Pasted images and files dropped from the system or the vault become attachments
+    this.promptInputEl.addEventListener('paste', (event: ClipboardEvent) => {
+      const imageFiles = Array.from(event.clipboardData?.files || []).filter(file => file.type.startsWith('image/'));
+      if (imageFiles.length === 0) return;
+      event.preventDefault();
+      imageFiles.forEach(file => this.attachImageFile(file));
+    });
+    this.inputAreaContainerEl.addEventListener('dragover', (event: DragEvent) => {
+      event.preventDefault();
+    });
+    this.inputAreaContainerEl.addEventListener('drop', (event: DragEvent) => this.handleDrop(event));
     this.adjustInputHeight(); // Initial adjustment
 
     // Focus the input field when the view is opened
     this.promptInputEl.focus();
   }
 
+  // Shows the chat model and what it supports. Called on open and whenever settings are saved.
+  public refreshModelInfo(): void {
+    if (!this.modelInfoEl) return;
+    this.modelInfoEl.empty();
+
+    const capabilities = this.plugin.getTaskCapabilities('chat');
+
+    this.modelInfoEl.createSpan({ cls: 'obsigent-model-name', text: this.plugin.getTaskModelLabel('chat') });
+
+    const badges: [boolean, string, string][] = [
+      [capabilities.tools, 'Tools', 'Can call Obsidian commands and tools'],
+      [capabilities.vision, 'Vision', 'Accepts image input'],
+      [capabilities.jsonMode, 'JSON', 'Supports structured JSON output'],
+      [capabilities.reasoning, 'Reasoning', 'Thinks before answering'],
+    ];
+    for (const [supported, label, description] of badges) {
+      if (!supported) continue;
+      const badgeEl = this.modelInfoEl.createSpan({ cls: 'obsigent-capability-badge', text: label });
+      badgeEl.setAttribute('aria-label', description);
+    }
+    if (capabilities.contextWindow > 0) {
+      this.renderContextMeter(capabilities.contextWindow);
+    }
+
+    const costTracker = this.plugin.costTracker;
+    if (costTracker) {
+      const spendingCap = this.plugin.settings.monthlySpendingCap;
+      const monthlyText = `$${costTracker.getMonthlyCost().toFixed(2)}${spendingCap ? ` / $${spendingCap.toFixed(2)}` : ''}`;
+      const costEl = this.modelInfoEl.createSpan({
+        cls: 'obsigent-cost-summary',
+        text: `Chat $${costTracker.getConversationCost().toFixed(4)} · Month ${monthlyText}`,
+      });
+      costEl.setAttribute('aria-label', 'Cost of this conversation and of all requests this month');
+      if (costTracker.isSpendingCapReached()) {
+        costEl.addClass('is-cap-reached');
+      }
+    }
+    if (!capabilities.tools) {
+      this.modelInfoEl.setAttribute('aria-label', 'This model does not support tool calling, so Obsidian commands are not offered to it.');
+    } else {
+      this.modelInfoEl.removeAttribute('aria-label');
+    }
+  }
+
   private adjustInputHeight(): void {
     if (!this.promptInputEl) return;
     this.promptInputEl.style.height = 'auto'; // Reset height
@@ -114,20 +203,122 @@ export class ChatView extends ItemView {
 
     // Otherwise, handle normal message submission
     const messageText = this.promptInputEl.value.trim();
-    if (messageText) {
-      this.displayMessage(messageText, 'user');
+    const images = this.pendingImages;
+    if (messageText || images.length > 0) {
+      this.displayMessage(messageText, 'user', { images });
       
       // Set generating state and create abort controller
       this.setGeneratingState(true);
       this.currentAbortController = new AbortController();
       
-      this.plugin.handleUserMessage(messageText, this, this.currentAbortController);
+      this.plugin.handleUserMessage(messageText, this, this.currentAbortController, images);
+      this.pendingImages = [];
+      this.renderAttachments();
       this.promptInputEl.value = '';
       this.adjustInputHeight();
       this.promptInputEl.focus(); // Keep focus after sending
     }
   }
 
+  private handleDrop(event: DragEvent): void {
+    const dataTransfer = event.dataTransfer;
+    if (!dataTransfer) return;
+    const imageFiles = Array.from(dataTransfer.files).filter(file => file.type.startsWith('image/'));
+    if (imageFiles.length > 0) {
+      event.preventDefault();
+      imageFiles.forEach(file => this.attachImageFile(file));
+      return;
+    }
+    // Files dragged from the file explorer arrive as obsidian://open links
+    const vaultFiles = dataTransfer.getData('text/plain').split('\n')
+      .map(line => this.resolveVaultFile(line.trim()))
+      .filter((file): file is TFile => !!file && !!getImageMediaType(file.extension));
+    if (vaultFiles.length > 0) {
+      event.preventDefault();
+      vaultFiles.forEach(file => this.attachVaultImage(file));
+    }
+  }
+
+  private resolveVaultFile(link: string): TFile | null {
+    if (!link.startsWith('obsidian://open')) return null;
+    try {
+      const filePath = new URL(link).searchParams.get('file');
+      if (!filePath) return null;
+      const file = this.app.metadataCache.getFirstLinkpathDest(filePath, '') || this.app.vault.getAbstractFileByPath(filePath);
+      return file instanceof TFile ? file : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  // Images can only be attached when the chat model accepts them, otherwise the request would be rejected
+  private canAttachImages(): boolean {
+    if (this.plugin.getTaskCapabilities('chat').vision) return true;
+    new Notice(`${this.plugin.getTaskModelLabel('chat')} does not accept images. Choose a model with vision support to attach images.`);
+    return false;
+  }
+
+  private attachImageFile(file: File): void {
+    if (!this.canAttachImages()) return;
+    if (!SUPPORTED_IMAGE_MEDIA_TYPES.includes(file.type)) {
+      new Notice(`Images of type ${file.type} are not supported. Use PNG, JPEG, GIF or WebP.`);
+      return;
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      new Notice(`${file.name || 'The image'} is larger than 5 MB and cannot be attached.`);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === 'string') this.addPendingImage(reader.result);
+    };
+    reader.onerror = () => new Notice(`Could not read ${file.name || 'the image'}.`);
+    reader.readAsDataURL(file);
+  }
+
+  private async attachVaultImage(file: TFile): Promise<void> {
+    if (!this.canAttachImages()) return;
+    const mediaType = getImageMediaType(file.extension);
+    if (!mediaType) {
+      new Notice(`${file.name} is not a supported image. Use PNG, JPEG, GIF or WebP.`);
+      return;
+    }
+    if (file.stat.size > MAX_IMAGE_BYTES) {
+      new Notice(`${file.name} is larger than 5 MB and cannot be attached.`);
+      return;
+    }
+    try {
+      const data = await this.app.vault.readBinary(file);
+      this.addPendingImage(`data:${mediaType};base64,${arrayBufferToBase64(data)}`);
+    } catch (error) {
+      console.error(`Obsigent: Could not read ${file.path}`, error);
+      new Notice(`Could not read ${file.name}.`);
+    }
+  }
+
+  private addPendingImage(dataUrl: string): void {
+    this.pendingImages.push(dataUrl);
+    this.renderAttachments();
+  }
+
+  private renderAttachments(): void {
+    if (!this.attachmentsEl) return;
+    this.attachmentsEl.empty();
+    this.pendingImages.forEach((dataUrl, index) => {
+      const wrapperEl = this.attachmentsEl.createDiv({ cls: 'obsigent-thumbnail-wrapper' });
+      const imgEl = wrapperEl.createEl('img', { cls: 'obsigent-thumbnail-image' });
+      imgEl.src = dataUrl;
+      imgEl.alt = 'Attached image';
+      const removeEl = wrapperEl.createEl('button', { cls: 'obsigent-attachment-remove' });
+      setIcon(removeEl, 'x');
+      removeEl.setAttribute('aria-label', 'Remove image');
+      removeEl.addEventListener('click', () => {
+        this.pendingImages.splice(index, 1);
+        this.renderAttachments();
+      });
+    });
+  }
+
   // Method to set generation state and update UI accordingly
   private setGeneratingState(generating: boolean): void {
     this.isGenerating = generating;
@@ -164,10 +355,42 @@ export class ChatView extends ItemView {
     this.setGeneratingState(false);
   }
 
+  // How much of the context window the last request used, e.g. "12.3k / 128k", or just the window before the first one
+  private renderContextMeter(contextWindow: number): void {
+    const formatTokens = (tokens: number) => tokens >= 10000 || tokens % 1000 === 0 ? `${Math.round(tokens / 1000)}k` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+    const usage = this.plugin.getChatContextUsage();
+    // A usage measured against another model's window would be misleading after switching models
+    if (!usage || usage.contextWindow !== contextWindow) {
+      this.modelInfoEl.createSpan({ cls: 'obsigent-context-window', text: `${formatTokens(contextWindow)} context` });
+      return;
+    }
+
+    const fraction = Math.min(1, usage.usedTokens / contextWindow);
+    const meterEl = this.modelInfoEl.createSpan({ cls: 'obsigent-context-window obsigent-context-meter' });
+    const barEl = meterEl.createSpan({ cls: 'obsigent-context-meter-bar' });
+    barEl.createSpan({ cls: 'obsigent-context-meter-fill' }).style.width = `${Math.round(fraction * 100)}%`;
+    meterEl.createSpan({ text: `${formatTokens(usage.usedTokens)} / ${formatTokens(contextWindow)}` });
+    if (fraction >= 0.9) meterEl.addClass('is-nearly-full');
+
+    let description = `About ${usage.usedTokens} of ${contextWindow} context tokens used by the last request`;
+    const trimmed = usage.droppedMessages > 0 || usage.compactedToolResults > 0;
+    if (trimmed) {
+      meterEl.createSpan({ cls: 'obsigent-context-meter-trimmed', text: 'trimmed' });
+      description += `. To fit, ${usage.droppedMessages} older messages were left out and ${usage.compactedToolResults} tool outputs shortened; the chat itself keeps them.`;
+    }
+    meterEl.setAttribute('aria-label', description);
+  }
+
   // Public method to be called when generation finishes (from main.ts)
   public onGenerationFinished(): void {
+    this.clearRetryStatus();
     this.setGeneratingState(false);
     this.currentAbortController = null;
+    // Reasoning of stopped or failed requests is not finalized with its answer
+    this.chatLogContainerEl?.querySelectorAll('.obsigent-reasoning-block.is-streaming').forEach(reasoningEl => {
+      reasoningEl.removeClass('is-streaming');
+      reasoningEl.querySelector('.obsigent-reasoning-summary')?.setText('Thinking');
+    });
   }
 
   // displayMessage needs significant rework to match Obsigent's ChatRow.tsx structure and styling
@@ -177,7 +400,7 @@ export class ChatView extends ItemView {
     options?: { 
         isPartial?: boolean; 
         toolDetails?: any; // For tool messages
-        apiReqInfo?: any; // For API request messages
+        apiReqInfo?: ApiRequestInfo; // For API request messages
         images?: string[];
         files?: string[];
     }
@@ -262,11 +485,7 @@ export class ChatView extends ItemView {
             }
             // Add more details as needed
         } else if (sender === 'api_req_started') {
-            // Simplified API request display
-            messageContentEl.setText(options?.apiReqInfo?.request || initialTextOrMarkdown || 'Processing API request...');
-            if (options?.apiReqInfo?.cost) {
-                messageContentEl.createDiv({text: `Cost: $${options.apiReqInfo.cost.toFixed(4)}`, cls: 'obsigent-api-cost'});
-            }
+            this.renderApiRequestInfo(messageContentEl, options?.apiReqInfo, initialTextOrMarkdown);
         } else {
             messageContentEl.setText(initialTextOrMarkdown);
         }
@@ -278,6 +497,26 @@ export class ChatView extends ItemView {
     return messageContentEl; // Return the element that holds the main content for potential updates
   }
 
+  // Re-renders an "API Request" row, e.g. once the token usage of the request is known
+  public updateApiRequestInfo(contentEl: HTMLDivElement, apiReqInfo: ApiRequestInfo): void {
+    contentEl.empty();
+    this.renderApiRequestInfo(contentEl, apiReqInfo);
+  }
+
+  private renderApiRequestInfo(contentEl: HTMLDivElement, apiReqInfo?: ApiRequestInfo, fallbackText?: string): void {
+    contentEl.setText(apiReqInfo?.request || fallbackText || 'Processing API request...');
+    if (apiReqInfo?.usage) {
+      const { inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens } = apiReqInfo.usage;
+      const tokenParts = [`${inputTokens.toLocaleString()} in`, `${outputTokens.toLocaleString()} out`];
+      if (cacheReadTokens > 0) tokenParts.push(`${cacheReadTokens.toLocaleString()} cache read`);
+      if (cacheWriteTokens > 0) tokenParts.push(`${cacheWriteTokens.toLocaleString()} cache write`);
+      contentEl.createDiv({ text: `Tokens: ${tokenParts.join(' · ')}`, cls: 'obsigent-api-tokens' });
+    }
+    if (apiReqInfo?.cost !== undefined) {
+      contentEl.createDiv({ text: `Cost: $${apiReqInfo.cost.toFixed(4)}`, cls: 'obsigent-api-cost' });
+    }
+  }
+
   private renderThumbnails(container: HTMLElement, images?: string[], files?: string[]): void {
     if ((images && images.length > 0) || (files && files.length > 0)) {
         const thumbnailsContainer = container.createDiv({ cls: 'obsigent-thumbnails-container' });
@@ -349,6 +588,7 @@ export class ChatView extends ItemView {
   // Method to enable/disable input (for when AI is processing)
   public setInputEnabled(enabled: boolean): void {
     this.promptInputEl.disabled = !enabled;
+    this.attachButtonEl.disabled = !enabled;
     // Don't disable the send button when generating - it becomes the stop button and should remain clickable
     if (!this.isGenerating) {
       this.sendButtonEl.disabled = !enabled;
@@ -393,16 +633,77 @@ export class ChatView extends ItemView {
     return await this.displayMessage('', 'ai', { isPartial: true });
   }
 
+  // "Retrying in Ns" above a response whose request is waiting to be sent again; cleared once content arrives
+  public showRetryStatus(contentEl: HTMLDivElement, retry: RetryInfo): void {
+    this.clearRetryStatus();
+    const statusEl = createDiv({ cls: 'obsigent-retry-status' });
+    contentEl.parentElement?.insertBefore(statusEl, contentEl);
+
+    const retryAt = Date.now() + retry.delayMs;
+    const render = () => {
+      const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+      statusEl.setText(seconds > 0
+        ? `${retry.reason}. Retrying in ${seconds}s (attempt ${retry.attempt} of ${retry.maxAttempts})…`
+        : `${retry.reason}. Retrying (attempt ${retry.attempt} of ${retry.maxAttempts})…`);
+    };
+    render();
+    this.retryStatus = { statusEl, intervalId: window.setInterval(render, 1000) };
+    this.chatLogContainerEl.scrollTop = this.chatLogContainerEl.scrollHeight;
+  }
+
+  private clearRetryStatus(): void {
+    if (!this.retryStatus) return;
+    window.clearInterval(this.retryStatus.intervalId);
+    this.retryStatus.statusEl.remove();
+    this.retryStatus = null;
+  }
+
+  // Removes a streaming response that never received content, e.g. when the request is sent to a fallback provider
+  public discardStreamingResponse(contentEl: HTMLDivElement): void {
+    this.clearRetryStatus();
+    contentEl.closest('.obsigent-chat-row-container')?.remove();
+  }
+
   // Method to update streaming response content
   public async updateStreamingResponse(contentEl: HTMLDivElement, newContent: string): Promise<void> {
+    this.clearRetryStatus();
     await this.updateAIMessageContent(contentEl, newContent, false);
   }
 
   // Method to finalize streaming response
   public async finalizeStreamingResponse(contentEl: HTMLDivElement, finalContent: string): Promise<void> {
+    this.finalizeReasoning(contentEl);
     await this.updateAIMessageContent(contentEl, finalContent, true);
   }
 
+  // The model's reasoning goes into a collapsed block above the answer, never into the answer itself
+  public updateReasoning(contentEl: HTMLDivElement, reasoning: string): void {
+    this.clearRetryStatus();
+    let reasoningEl = this.getReasoningBlock(contentEl);
+    if (!reasoningEl) {
+      reasoningEl = createEl('details', { cls: 'obsigent-reasoning-block is-streaming' });
+      reasoningEl.createEl('summary', { cls: 'obsigent-reasoning-summary', text: 'Thinking…' });
+      reasoningEl.createDiv({ cls: 'obsigent-reasoning-content' });
+      contentEl.parentElement?.insertBefore(reasoningEl, contentEl);
+    }
+    // Plain text keeps re-rendering cheap for long reasoning streams
+    reasoningEl.querySelector('.obsigent-reasoning-content')?.setText(reasoning.trim());
+    this.chatLogContainerEl.scrollTop = this.chatLogContainerEl.scrollHeight;
+  }
+
+  public finalizeReasoning(contentEl: HTMLDivElement): void {
+    const reasoningEl = this.getReasoningBlock(contentEl);
+    if (reasoningEl && reasoningEl.hasClass('is-streaming')) {
+      reasoningEl.removeClass('is-streaming');
+      reasoningEl.querySelector('.obsigent-reasoning-summary')?.setText('Thinking');
+    }
+  }
+
+  private getReasoningBlock(contentEl: HTMLDivElement): HTMLDetailsElement | null {
+    const previousEl = contentEl.previousElementSibling;
+    return previousEl instanceof HTMLDetailsElement && previousEl.hasClass('obsigent-reasoning-block') ? previousEl : null;
+  }
+
   // Method to show typing indicator
   public showTypingIndicator(): HTMLDivElement | null {
     const typingContainer = this.chatLogContainerEl.createDiv({ cls: 'obsigent-typing-indicator' });
@@ -427,5 +728,6 @@ export class ChatView extends ItemView {
     // Clean up any event listeners or resources
     // Remove any pending timers or observers
     this.hideTypingIndicator();
+    this.clearRetryStatus();
   }
 }